@@ -3,6 +3,9 @@ const nextConfig = {
   images: {
     remotePatterns: [
       { protocol: "https", hostname: "cf.geekdo-images.com" },
+      // Square-hosted catalog images (before/after on the run pages)
+      { protocol: "https", hostname: "items-images-production.s3.us-west-2.amazonaws.com" },
+      { protocol: "https", hostname: "items-images-sandbox.s3.us-west-2.amazonaws.com" },
     ],
   },
 };
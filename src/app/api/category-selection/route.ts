@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import {
+  CategorySelectionConfig,
+  getCategorySelectionConfig,
+  setCategorySelectionConfig,
+  validateCategorySelectionConfig,
+} from "@/lib/category-selection";
+import { fetchCategorySelection } from "@/lib/square";
+
+// Always read the live store – never prerender at build time
+export const dynamic = "force-dynamic";
+
+/** Resolve the Square categories against the current config, for the dashboard preview. */
+async function previewCategories() {
+  try {
+    const { decisions } = await fetchCategorySelection();
+    return { categories: [...decisions.values()].sort((a, b) => a.name.localeCompare(b.name)) };
+  } catch (err: any) {
+    return { categories: [], categoriesError: `Could not load Square categories: ${err.message}` };
+  }
+}
+
+/**
+ * GET /api/category-selection
+ *
+ * The category selection config plus every Square category with whether
+ * it is selected and which rule decided it.
+ */
+export async function GET() {
+  try {
+    const config = await getCategorySelectionConfig();
+    return NextResponse.json({ ok: true, config, ...(await previewCategories()) });
+  } catch (err: any) {
+    console.error("Failed to read category selection:", err);
+    return NextResponse.json({ ok: false, error: err.message }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/category-selection
+ *
+ * Replace the config. Body (JSON):
+ *   { "includeIds": ["CAT1"], "excludeIds": [], "inheritToChildren": true,
+ *     "optOutAttribute": "skip_bgg_sync",
+ *     "keywords": [{ "keyword": "board game", "match": "word" },
+ *                  { "keyword": "video game", "match": "word", "exclude": true }] }
+ */
+export async function PUT(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    const error = validateCategorySelectionConfig(body);
+    if (error) {
+      return NextResponse.json({ ok: false, error }, { status: 400 });
+    }
+
+    const config: CategorySelectionConfig = {
+      includeIds: body.includeIds,
+      excludeIds: body.excludeIds,
+      keywords: body.keywords.map((r: any) => ({
+        keyword: r.keyword.trim(),
+        match: r.match,
+        ...(r.exclude ? { exclude: true } : {}),
+      })),
+      inheritToChildren: body.inheritToChildren,
+      optOutAttribute: body.optOutAttribute.trim(),
+    };
+
+    const saved = await setCategorySelectionConfig(config);
+    return NextResponse.json({ ok: true, config: saved, ...(await previewCategories()) });
+  } catch (err: any) {
+    console.error("Failed to save category selection:", err);
+    return NextResponse.json({ ok: false, error: err.message }, { status: 500 });
+  }
+}
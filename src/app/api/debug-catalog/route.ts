@@ -6,52 +6,25 @@
  */
 
 import { NextResponse } from "next/server";
-import { Client, Environment } from "square";
-
-function getSquareClient(): Client {
-  const accessToken = process.env.SQUARE_ACCESS_TOKEN;
-  if (!accessToken) throw new Error("Missing SQUARE_ACCESS_TOKEN env var");
-
-  const env =
-    process.env.SQUARE_ENVIRONMENT === "production"
-      ? Environment.Production
-      : Environment.Sandbox;
-
-  return new Client({ accessToken, environment: env });
-}
-
-const GAME_CATEGORY_KEYWORDS = [
-  "board game",
-  "card game",
-  "board games",
-  "card games",
-  "tabletop",
-  "table top",
-  "games",
-];
+import { fetchCategorySelection, getSquareClient, pickVariationBarcode } from "../../../lib/square";
+import { selectItem } from "../../../lib/category-selection";
+import { squareCall } from "../../../lib/square-call";
 
 export async function GET() {
   try {
     const client = getSquareClient();
 
     // -----------------------------------------------------------------------
-    // 1. Fetch ALL categories
+    // 1. Fetch ALL categories and decide them with the shared resolver
     // -----------------------------------------------------------------------
-    const allCategories: { id: string; name: string; isGame: boolean }[] = [];
-    let cursor: string | undefined;
-
-    do {
-      const { result } = await client.catalogApi.listCatalog(cursor, "CATEGORY");
-      for (const obj of result.objects ?? []) {
-        const name = obj.categoryData?.name ?? "(unnamed)";
-        const nameLower = name.toLowerCase();
-        const isGame = GAME_CATEGORY_KEYWORDS.some((kw) => nameLower.includes(kw));
-        allCategories.push({ id: obj.id!, name, isGame });
-      }
-      cursor = result.cursor ?? undefined;
-    } while (cursor);
-
-    const gameCatIds = new Set(allCategories.filter((c) => c.isGame).map((c) => c.id));
+    const { config, decisions } = await fetchCategorySelection();
+    const allCategories = [...decisions.values()].map((d) => ({
+      id: d.id,
+      name: d.name || "(unnamed)",
+      parentId: d.parentId,
+      isGame: d.selected,
+      reason: d.reason,
+    }));
 
     // -----------------------------------------------------------------------
     // 2. Fetch ALL items and classify them
@@ -60,18 +33,22 @@ export async function GET() {
     let itemsWithNoCategory = 0;
     let itemsInGameCategory = 0;
     let itemsNotInGameCategory = 0;
+    let itemsOptedOut = 0;
     let gameItemsWithUpc = 0;
     let gameItemsWithoutUpc = 0;
+    let gameItemsWithInvalidUpc = 0;
     let gameItemsAlreadyHaveImage = 0;
 
     const skippedNoCategory: string[] = [];   // first 20
     const skippedNonGame: string[] = [];       // first 20
+    const skippedOptOut: string[] = [];        // first 20
     const skippedNoUpc: string[] = [];         // first 20
+    const invalidUpcs: string[] = [];          // first 20
     const includedItems: string[] = [];        // first 30
 
-    cursor = undefined;
+    let cursor: string | undefined;
     do {
-      const { result } = await client.catalogApi.listCatalog(cursor, "ITEM");
+      const { result } = await squareCall("listCatalog (items)", () => client.catalogApi.listCatalog(cursor, "ITEM"));
 
       for (const obj of result.objects ?? []) {
         const itemData = obj.itemData;
@@ -80,43 +57,39 @@ export async function GET() {
 
         const name = itemData.name ?? "(unnamed)";
 
-        // Collect category IDs
-        const catIds: string[] = [];
-        if (itemData.categoryId) catIds.push(itemData.categoryId);
-        if ((itemData as any).categories) {
-          for (const c of (itemData as any).categories) {
-            if (c.id) catIds.push(c.id);
-          }
-        }
+        const selection = selectItem(obj, decisions, config);
+        const catIds = selection.categoryIds;
 
-        if (catIds.length === 0) {
+        if (!selection.selected && selection.reason === "no-category") {
           itemsWithNoCategory++;
           if (skippedNoCategory.length < 20) skippedNoCategory.push(name);
           continue;
         }
 
-        const isGame = catIds.some((id) => gameCatIds.has(id));
-        if (!isGame) {
+        if (!selection.selected && selection.reason === "not-selected") {
           itemsNotInGameCategory++;
           if (skippedNonGame.length < 20) {
             const catNames = catIds
-              .map((id) => allCategories.find((c) => c.id === id)?.name ?? id)
+              .map((id) => decisions.get(id)?.name ?? id)
               .join(", ");
             skippedNonGame.push(`${name} [categories: ${catNames}]`);
           }
           continue;
         }
 
+        if (!selection.selected) {
+          itemsOptedOut++;
+          if (skippedOptOut.length < 20) skippedOptOut.push(name);
+          continue;
+        }
+
         itemsInGameCategory++;
 
-        // Check for UPC
-        let upc: string | undefined;
-        for (const variation of itemData.variations ?? []) {
-          const varUpc = variation.itemVariationData?.upc;
-          if (varUpc) {
-            upc = varUpc;
-            break;
-          }
+        // Check for a valid UPC (normalized to its canonical GTIN)
+        const { upc, invalidUpc } = pickVariationBarcode(obj);
+        if (invalidUpc) {
+          gameItemsWithInvalidUpc++;
+          if (invalidUpcs.length < 20) invalidUpcs.push(`${name} (UPC: "${invalidUpc.raw}" – ${invalidUpc.problem})`);
         }
 
         if (upc) {
@@ -143,16 +116,21 @@ export async function GET() {
         itemsWithNoCategory,
         itemsInGameCategory,
         itemsNotInGameCategory,
+        itemsOptedOut,
         gameItemsWithUpc,
         gameItemsWithoutUpc,
+        gameItemsWithInvalidUpc,
         gameItemsAlreadyHaveImage,
         wouldProcess: gameItemsWithUpc - gameItemsAlreadyHaveImage,
       },
+      categorySelection: config,
       allCategories,
       samples: {
         skippedNoCategory: skippedNoCategory.length > 0 ? skippedNoCategory : "(none)",
         skippedNonGame: skippedNonGame.length > 0 ? skippedNonGame : "(none)",
+        skippedOptOut: skippedOptOut.length > 0 ? skippedOptOut : "(none)",
         skippedNoUpc: skippedNoUpc.length > 0 ? skippedNoUpc : "(none)",
+        invalidUpcs: invalidUpcs.length > 0 ? invalidUpcs : "(none)",
         includedItems: includedItems.length > 0 ? includedItems : "(none)",
       },
     });
@@ -1,6 +1,8 @@
 import { serve } from "inngest/next";
 import { inngest } from "@/inngest/client";
-import { syncImages, syncSingleItem } from "@/inngest/functions/sync-images";
+import { syncImages, syncImagesCancelled, syncSingleItem } from "@/inngest/functions/sync-images";
+import { writeDescriptions } from "@/inngest/functions/write-descriptions";
+import { scheduledSync } from "@/inngest/functions/scheduled-sync";
 
 /**
  * Inngest HTTP handler.
@@ -12,7 +14,7 @@ import { syncImages, syncSingleItem } from "@/inngest/functions/sync-images";
  */
 export const { GET, POST, PUT } = serve({
   client: inngest,
-  functions: [syncImages, syncSingleItem],
+  functions: [syncImages, syncImagesCancelled, syncSingleItem, writeDescriptions, scheduledSync],
   servePath: "/api/inngest",
 });
 
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { clearMatchDecision } from "@/lib/bgg-cache";
+import { deleteOverride, getOverride, listOverrides, Override, setOverride } from "@/lib/overrides";
+
+// Always read the live store – never prerender at build time
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/overrides            – list all overrides
+ * GET /api/overrides?objectId=X – fetch the override for one catalog object
+ */
+export async function GET(req: Request) {
+  try {
+    const objectId = new URL(req.url).searchParams.get("objectId");
+    if (objectId) {
+      const override = await getOverride(objectId);
+      if (!override) {
+        return NextResponse.json({ ok: false, error: `No override for ${objectId}` }, { status: 404 });
+      }
+      return NextResponse.json({ ok: true, override });
+    }
+
+    return NextResponse.json({ ok: true, overrides: await listOverrides() });
+  } catch (err: any) {
+    console.error("Failed to read overrides:", err);
+    return NextResponse.json({ ok: false, error: err.message }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/overrides
+ *
+ * Pin a Square catalog object to a BGG id, or mark it as "never sync".
+ * Body (JSON):
+ *   { "objectId": "ABC123", "bggId": 13, "note": "Catan 3-pack bundle" }
+ *   { "objectId": "ABC123", "neverSync": true }
+ */
+export async function PUT(req: Request) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const objectId = typeof body.objectId === "string" ? body.objectId.trim() : "";
+    if (!objectId) {
+      return NextResponse.json({ ok: false, error: "objectId is required" }, { status: 400 });
+    }
+
+    const note = typeof body.note === "string" && body.note.trim() ? body.note.trim() : undefined;
+    const updatedAt = new Date().toISOString();
+    let override: Override;
+
+    if (body.neverSync === true) {
+      override = { objectId, mode: "never", note, updatedAt };
+    } else {
+      const bggId = Number(body.bggId);
+      if (!Number.isInteger(bggId) || bggId <= 0) {
+        return NextResponse.json(
+          { ok: false, error: 'Provide a positive integer "bggId" or "neverSync": true' },
+          { status: 400 }
+        );
+      }
+      override = { objectId, mode: "pin", bggId, note, updatedAt };
+    }
+
+    await setOverride(override);
+    return NextResponse.json({ ok: true, override });
+  } catch (err: any) {
+    console.error("Failed to save override:", err);
+    return NextResponse.json({ ok: false, error: err.message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/overrides?objectId=X
+ *
+ * Remove an override so the item goes back to normal matching. The item's
+ * remembered match decision is forgotten too, so it is matched afresh.
+ */
+export async function DELETE(req: Request) {
+  try {
+    const objectId = new URL(req.url).searchParams.get("objectId");
+    if (!objectId) {
+      return NextResponse.json({ ok: false, error: "objectId query param is required" }, { status: 400 });
+    }
+
+    await deleteOverride(objectId);
+    await clearMatchDecision(objectId);
+    return NextResponse.json({ ok: true });
+  } catch (err: any) {
+    console.error("Failed to delete override:", err);
+    return NextResponse.json({ ok: false, error: err.message }, { status: 500 });
+  }
+}
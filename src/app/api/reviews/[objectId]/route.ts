@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { inngest } from "@/inngest/client";
+import { clearMatchDecision, setMatchDecision } from "@/lib/bgg-cache";
+import { checkReviewPick } from "@/lib/bgg";
+import { deleteReview, getReview, markReviewRejected } from "@/lib/review-queue";
+
+/**
+ * POST /api/reviews/:objectId
+ *
+ * Resolve a pending review.
+ * Body (JSON):
+ *   { "action": "approve" }                 – accept the proposed match
+ *   { "action": "pick", "bggId": 13 }       – use a different BGG id instead
+ *   { "action": "reject" }                  – never auto-sync this item (and forget its match decision)
+ *
+ * Approving or picking records the decision (confidence 1) and re-sends
+ * the item to `sync/item.process`, which resumes the upload. A BGG id the
+ * sync couldn't use (no image, a base game for an expansion SKU) is
+ * refused with a 400 instead.
+ */
+export async function POST(req: Request, { params }: { params: { objectId: string } }) {
+  try {
+    const { objectId } = params;
+    const body = await req.json().catch(() => ({}));
+
+    const review = await getReview(objectId);
+    if (!review) {
+      return NextResponse.json({ ok: false, error: `No review found for ${objectId}` }, { status: 404 });
+    }
+
+    if (body.action === "reject") {
+      await markReviewRejected(objectId);
+      await clearMatchDecision(objectId);
+      return NextResponse.json({ ok: true, message: `Rejected match for "${review.item.name}".` });
+    }
+
+    if (body.action !== "approve" && body.action !== "pick") {
+      return NextResponse.json(
+        { ok: false, error: `Invalid action "${body.action}" (expected "approve", "pick" or "reject")` },
+        { status: 400 }
+      );
+    }
+
+    const bggId = body.action === "pick" ? Number(body.bggId) : review.proposed.bggId;
+    if (!Number.isInteger(bggId) || bggId <= 0) {
+      return NextResponse.json({ ok: false, error: "A positive integer bggId is required" }, { status: 400 });
+    }
+
+    const problem = await checkReviewPick(review.item.name, bggId);
+    if (problem) {
+      return NextResponse.json({ ok: false, error: `Can't use this match: ${problem}` }, { status: 400 });
+    }
+
+    if (!process.env.INNGEST_EVENT_KEY) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error:
+            "INNGEST_EVENT_KEY is not set. Add it in Vercel → Settings → Environment Variables, then redeploy.",
+        },
+        { status: 500 }
+      );
+    }
+
+    await setMatchDecision(objectId, {
+      bggId,
+      searchName: review.searchName,
+      reason: body.action === "pick" ? "picked by reviewer" : "approved by reviewer",
+      confidence: 1,
+      decidedAt: new Date().toISOString(),
+    });
+    await deleteReview(objectId);
+
+    await inngest.send({
+      name: "sync/item.process",
+      data: { item: review.item, fields: review.fields, imagePolicy: review.imagePolicy },
+    });
+
+    return NextResponse.json({
+      ok: true,
+      message: `Approved BGG #${bggId} for "${review.item.name}" – sync resumed.`,
+    });
+  } catch (err: any) {
+    console.error("Failed to resolve review:", err);
+    return NextResponse.json({ ok: false, error: err.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { listReviews, ReviewStatus } from "@/lib/review-queue";
+
+// Always read the live store – never prerender at build time
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/reviews
+ *
+ * List low-confidence matches parked for human review.
+ * Query params:
+ *   status – "pending" (default) or "rejected"
+ */
+export async function GET(req: Request) {
+  try {
+    const status = new URL(req.url).searchParams.get("status") ?? "pending";
+    if (status !== "pending" && status !== "rejected") {
+      return NextResponse.json(
+        { ok: false, error: `Invalid status "${status}" (expected "pending" or "rejected")` },
+        { status: 400 }
+      );
+    }
+
+    const reviews = await listReviews(status as ReviewStatus);
+    return NextResponse.json({ ok: true, reviews });
+  } catch (err: any) {
+    console.error("Failed to list reviews:", err);
+    return NextResponse.json({ ok: false, error: err.message }, { status: 500 });
+  }
+}
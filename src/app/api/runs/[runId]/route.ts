@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getRun, getRunItems } from "@/lib/run-store";
+import { getRunBggStats } from "@/lib/bgg-rate-limit";
+import { getRunUpcStats } from "@/lib/upc";
+
+// Always read the live store – never prerender at build time
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/runs/:runId
+ *
+ * One run with every item's outcome (status, timing, BGG match, error),
+ * and the run's BGG request and UPC lookup totals.
+ */
+export async function GET(req: Request, { params }: { params: { runId: string } }) {
+  try {
+    const { runId } = params;
+    const run = await getRun(runId);
+    if (!run) {
+      return NextResponse.json({ ok: false, error: `No run found with id ${runId}` }, { status: 404 });
+    }
+
+    const [items, bggStats, upcStats] = await Promise.all([
+      getRunItems(runId),
+      getRunBggStats(runId),
+      getRunUpcStats(runId),
+    ]);
+    return NextResponse.json({ ok: true, run, items, bggStats, upcStats });
+  } catch (err: any) {
+    console.error("Failed to read run:", err);
+    return NextResponse.json({ ok: false, error: err.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { listRuns } from "@/lib/run-store";
+
+// Always read the live store – never prerender at build time
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/runs
+ *
+ * Past sync runs, newest first, with their parameters and – once every
+ * item has finished – counts by outcome.
+ * Query params:
+ *   limit – max runs to return (default 50)
+ */
+export async function GET(req: Request) {
+  try {
+    const limitParam = new URL(req.url).searchParams.get("limit");
+    const limit = limitParam === null ? 50 : Number(limitParam);
+    if (!Number.isInteger(limit) || limit <= 0) {
+      return NextResponse.json({ ok: false, error: "limit must be a positive integer" }, { status: 400 });
+    }
+
+    const runs = await listRuns(limit);
+    return NextResponse.json({ ok: true, runs });
+  } catch (err: any) {
+    console.error("Failed to list runs:", err);
+    return NextResponse.json({ ok: false, error: err.message }, { status: 500 });
+  }
+}
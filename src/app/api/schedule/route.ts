@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import {
+  getScheduleConfig,
+  getSyncCron,
+  ScheduleConfig,
+  setScheduleConfig,
+  validateScheduleConfig,
+} from "@/lib/schedule";
+
+// Always read the live store – never prerender at build time
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/schedule
+ *
+ * The scheduled-sync config (paused, options) and the cron expression
+ * it runs on (SYNC_SCHEDULE_CRON, fixed at deploy time).
+ */
+export async function GET() {
+  try {
+    const config = await getScheduleConfig();
+    return NextResponse.json({ ok: true, config, cron: getSyncCron() });
+  } catch (err: any) {
+    console.error("Failed to read schedule:", err);
+    return NextResponse.json({ ok: false, error: err.message }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/schedule
+ *
+ * Replace the config. Body (JSON):
+ *   { "paused": false,
+ *     "options": { "incremental": true, "force": false, "dryRun": false, "imagePolicy": "skip",
+ *                  "fields": { "image": "fill-if-empty", "description": "fill-if-empty" } } }
+ */
+export async function PUT(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    const error = validateScheduleConfig(body);
+    if (error) {
+      return NextResponse.json({ ok: false, error }, { status: 400 });
+    }
+
+    const config: ScheduleConfig = {
+      paused: body.paused,
+      options: {
+        incremental: body.options.incremental,
+        force: body.options.force,
+        dryRun: body.options.dryRun,
+        imagePolicy: body.options.imagePolicy,
+        fields: body.options.fields,
+      },
+    };
+
+    const saved = await setScheduleConfig(config);
+    return NextResponse.json({ ok: true, config: saved, cron: getSyncCron() });
+  } catch (err: any) {
+    console.error("Failed to save schedule:", err);
+    return NextResponse.json({ ok: false, error: err.message }, { status: 500 });
+  }
+}
@@ -1,12 +1,37 @@
 import { NextResponse } from "next/server";
 import { inngest } from "@/inngest/client";
+import { IMAGE_POLICIES } from "@/lib/square";
+import { getRunInProgress, getStaleRunMs } from "@/lib/run-store";
+import { validateFieldSelection } from "@/lib/sync-fields";
 
 /**
  * POST /api/trigger-sync
  *
  * Manually trigger the BGG → Square image sync.
  * Body (optional JSON):
- *   { "force": true, "filterName": "Catan" }
+ *   { "force": true, "filterName": "Catan", "dryRun": true, "confidenceThreshold": 0.8,
+ *     "incremental": true, "since": "2024-06-01T00:00:00Z", "imagePolicy": "replace-bgg-only",
+ *     "fields": { "description": "overwrite" } }
+ *
+ * With `dryRun: true` items are matched against BGG but nothing is
+ * written to Square; each child run returns the proposed match instead.
+ *
+ * `imagePolicy` decides what happens to items that already have images:
+ * skip (default), append, set-primary, replace-bgg-only or replace-all.
+ *
+ * `fields` picks what is written – `image`, `description` – each with
+ * "fill-if-empty" (only items without one) or "overwrite". Fields left out
+ * aren't touched, and only items with a field to write are dispatched.
+ * Without it every empty field is filled.
+ *
+ * With `incremental: true` only items created or changed since the last
+ * successful run are fetched; `since` overrides that timestamp.
+ *
+ * Only one run is in progress at a time. While one is, this returns it
+ * (409, `inProgress`) instead of starting another – unless `"queue": true`,
+ * in which case the new run starts once the current one completes. The
+ * check here is only a courtesy: the dispatcher itself won't start an
+ * unqueued run while another one holds the claim.
  */
 export async function POST(req: Request) {
   try {
@@ -24,11 +49,61 @@ export async function POST(req: Request) {
 
     const body = await req.json().catch(() => ({}));
 
+    if (body.since !== undefined && Number.isNaN(Date.parse(body.since))) {
+      return NextResponse.json(
+        { ok: false, error: `"since" must be an RFC 3339 timestamp, got ${JSON.stringify(body.since)}` },
+        { status: 400 }
+      );
+    }
+
+    const threshold = body.confidenceThreshold;
+    const validThreshold = typeof threshold === "number" && Number.isFinite(threshold) && threshold >= 0 && threshold <= 1;
+    if (threshold != null && !validThreshold) {
+      return NextResponse.json(
+        { ok: false, error: `"confidenceThreshold" must be a number from 0 to 1, got ${JSON.stringify(threshold)}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.imagePolicy !== undefined && !IMAGE_POLICIES.includes(body.imagePolicy)) {
+      return NextResponse.json(
+        { ok: false, error: `"imagePolicy" must be one of ${IMAGE_POLICIES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.fields !== undefined) {
+      const error = validateFieldSelection(body.fields);
+      if (error) return NextResponse.json({ ok: false, error }, { status: 400 });
+    }
+
+    if (body.queue !== true) {
+      const inProgress = await getRunInProgress(getStaleRunMs());
+      if (inProgress) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: `A sync is already in progress (run ${inProgress.runId}, started ${inProgress.startedAt}).`,
+            hint: "Wait for it to finish, or send \"queue\": true to start this one afterwards.",
+            inProgress,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
     const sendResult = await inngest.send({
       name: "sync/images.requested",
       data: {
         force: body.force ?? false,
         filterName: body.filterName ?? undefined,
+        dryRun: body.dryRun ?? false,
+        confidenceThreshold: body.confidenceThreshold ?? undefined,
+        incremental: body.incremental ?? undefined,
+        since: body.since ? new Date(body.since).toISOString() : undefined,
+        imagePolicy: body.imagePolicy ?? undefined,
+        fields: body.fields ?? undefined,
+        queue: body.queue === true,
       },
     });
 
@@ -37,6 +112,7 @@ export async function POST(req: Request) {
     return NextResponse.json({
       ok: true,
       message:
+        (body.queue === true ? "Queued – the sync starts once any run in progress completes. " : "") +
         "Event sent to Inngest successfully. If no function run appears in your Inngest dashboard, make sure you have synced the app URL (see instructions below).",
       sendResult,
     });
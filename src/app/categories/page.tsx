@@ -0,0 +1,255 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { CategoryDecision, CategorySelectionConfig, KeywordRule } from "@/lib/category-selection";
+
+type LoadStatus = "loading" | "loaded" | "error";
+type IdRule = "auto" | "include" | "exclude";
+
+const cardStyle = {
+  background: "#1e293b",
+  borderRadius: 12,
+  padding: "1.25rem",
+  border: "1px solid #334155",
+  marginBottom: "1rem",
+} as const;
+
+const buttonStyle = {
+  padding: "0.45rem 0.85rem",
+  borderRadius: 8,
+  border: "none",
+  color: "#fff",
+  fontWeight: 600,
+  fontSize: "0.85rem",
+  cursor: "pointer",
+} as const;
+
+const inputStyle = {
+  padding: "0.4rem 0.6rem",
+  borderRadius: 6,
+  border: "1px solid #475569",
+  background: "#0f172a",
+  color: "#e2e8f0",
+  fontSize: "0.85rem",
+} as const;
+
+export default function CategorySelection() {
+  const [status, setStatus] = useState<LoadStatus>("loading");
+  const [config, setConfig] = useState<CategorySelectionConfig | null>(null);
+  const [categories, setCategories] = useState<CategoryDecision[]>([]);
+  const [message, setMessage] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const applyResponse = (data: any) => {
+    setConfig(data.config);
+    setCategories(data.categories);
+    if (data.categoriesError) setMessage(`Error: ${data.categoriesError}`);
+  };
+
+  const load = useCallback(async () => {
+    setStatus("loading");
+    try {
+      const res = await fetch("/api/category-selection");
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error);
+      applyResponse(data);
+      setStatus("loaded");
+    } catch (err: any) {
+      setStatus("error");
+      setMessage(`Error: ${err.message}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function save() {
+    if (!config) return;
+    setSaving(true);
+    setMessage("");
+    try {
+      const res = await fetch("/api/category-selection", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(config),
+      });
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error);
+      applyResponse(data);
+      if (!data.categoriesError) setMessage("Saved. The next sync uses this selection.");
+    } catch (err: any) {
+      setMessage(`Error: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const update = (patch: Partial<CategorySelectionConfig>) => setConfig((prev) => (prev ? { ...prev, ...patch } : prev));
+
+  const updateRule = (index: number, patch: Partial<KeywordRule>) =>
+    update({ keywords: config!.keywords.map((r, i) => (i === index ? { ...r, ...patch } : r)) });
+
+  const idRule = (id: string): IdRule =>
+    config!.includeIds.includes(id) ? "include" : config!.excludeIds.includes(id) ? "exclude" : "auto";
+
+  const setIdRule = (id: string, rule: IdRule) =>
+    update({
+      includeIds: [...config!.includeIds.filter((x) => x !== id), ...(rule === "include" ? [id] : [])],
+      excludeIds: [...config!.excludeIds.filter((x) => x !== id), ...(rule === "exclude" ? [id] : [])],
+    });
+
+  const categoryName = (id: string | null) => categories.find((c) => c.id === id)?.name ?? id;
+
+  return (
+    <main style={{ maxWidth: 800, margin: "0 auto", padding: "4rem 1.5rem" }}>
+      <div style={{ marginBottom: "2rem" }}>
+        <a href="/" style={{ color: "#60a5fa", fontSize: "0.85rem" }}>
+          ← Back to sync
+        </a>
+        <h1 style={{ fontSize: "1.75rem", fontWeight: 700, margin: "0.75rem 0 0.5rem" }}>
+          Category Selection
+        </h1>
+        <p style={{ color: "#94a3b8", fontSize: "0.95rem", margin: 0 }}>
+          Choose which Square categories the sync looks at. Per-category choices beat keyword rules;
+          sub-categories follow their parent unless a rule of their own applies.
+        </p>
+      </div>
+
+      {message && (
+        <div
+          style={{
+            ...cardStyle,
+            color: message.startsWith("Error") ? "#fca5a5" : "#86efac",
+            fontSize: "0.9rem",
+          }}
+        >
+          {message}
+        </div>
+      )}
+
+      {status === "loading" && <p style={{ color: "#94a3b8" }}>Loading…</p>}
+
+      {config && (
+        <>
+          {/* Keyword rules */}
+          <div style={cardStyle}>
+            <div style={{ fontWeight: 600, color: "#e2e8f0", marginBottom: "0.75rem" }}>Keyword rules</div>
+            {config.keywords.map((rule, i) => (
+              <div key={i} style={{ display: "flex", gap: 8, alignItems: "center", marginBottom: 8 }}>
+                <input
+                  value={rule.keyword}
+                  onChange={(e) => updateRule(i, { keyword: e.target.value })}
+                  style={{ ...inputStyle, flex: 1 }}
+                />
+                <select
+                  value={rule.match}
+                  onChange={(e) => updateRule(i, { match: e.target.value as KeywordRule["match"] })}
+                  style={inputStyle}
+                >
+                  <option value="word">whole word</option>
+                  <option value="substring">substring</option>
+                  <option value="exact">exact name</option>
+                </select>
+                <label style={{ color: "#cbd5e1", fontSize: "0.85rem", display: "flex", gap: 4 }}>
+                  <input
+                    type="checkbox"
+                    checked={!!rule.exclude}
+                    onChange={(e) => updateRule(i, { exclude: e.target.checked })}
+                  />
+                  exclude
+                </label>
+                <button
+                  onClick={() => update({ keywords: config.keywords.filter((_, j) => j !== i) })}
+                  style={{ ...buttonStyle, background: "#475569", padding: "0.3rem 0.6rem" }}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => update({ keywords: [...config.keywords, { keyword: "", match: "word" }] })}
+              style={{ ...buttonStyle, background: "#334155" }}
+            >
+              + Add rule
+            </button>
+          </div>
+
+          {/* Inheritance and opt-out */}
+          <div style={{ ...cardStyle, display: "flex", flexDirection: "column", gap: "0.75rem", fontSize: "0.9rem" }}>
+            <label style={{ color: "#cbd5e1", display: "flex", gap: 8, alignItems: "center" }}>
+              <input
+                type="checkbox"
+                checked={config.inheritToChildren}
+                onChange={(e) => update({ inheritToChildren: e.target.checked })}
+              />
+              Sub-categories inherit their parent&apos;s selection
+            </label>
+            <label style={{ color: "#cbd5e1", display: "flex", gap: 8, alignItems: "center" }}>
+              Item opt-out attribute
+              <input
+                value={config.optOutAttribute}
+                onChange={(e) => update({ optOutAttribute: e.target.value })}
+                placeholder="skip_bgg_sync"
+                style={inputStyle}
+              />
+            </label>
+          </div>
+
+          <button
+            disabled={saving}
+            onClick={save}
+            style={{ ...buttonStyle, background: "#3b82f6", marginBottom: "1.5rem" }}
+          >
+            {saving ? "Saving…" : "Save & preview"}
+          </button>
+
+          {/* Categories */}
+          {categories.length > 0 && (
+            <div style={cardStyle}>
+              <table style={{ width: "100%", fontSize: "0.85rem", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr style={{ color: "#94a3b8", textAlign: "left" }}>
+                    <th>Category</th>
+                    <th>Synced?</th>
+                    <th>Rule</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {categories.map((c) => (
+                    <tr key={c.id} style={{ borderTop: "1px solid #334155" }}>
+                      <td style={{ padding: "0.4rem 0", color: "#e2e8f0" }}>
+                        {c.name || "(unnamed)"}
+                        {c.parentId && (
+                          <span style={{ color: "#64748b" }}> · in {categoryName(c.parentId)}</span>
+                        )}
+                      </td>
+                      <td>
+                        <span style={{ color: c.selected ? "#86efac" : "#fca5a5" }}>{c.selected ? "✓" : "✗"}</span>{" "}
+                        <span style={{ color: "#94a3b8" }}>{c.reason}</span>
+                      </td>
+                      <td>
+                        <select
+                          value={idRule(c.id)}
+                          onChange={(e) => setIdRule(c.id, e.target.value as IdRule)}
+                          style={inputStyle}
+                        >
+                          <option value="auto">auto</option>
+                          <option value="include">always include</option>
+                          <option value="exclude">always exclude</option>
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p style={{ color: "#64748b", fontSize: "0.8rem", marginBottom: 0 }}>
+                “Synced?” reflects the last saved config – save to refresh it.
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </main>
+  );
+}
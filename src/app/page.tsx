@@ -1,18 +1,43 @@
 "use client";
 
 import { useState } from "react";
+import type { ImagePolicy } from "@/lib/square";
+import type { SyncRun } from "@/lib/run-store";
+import type { FieldSelection } from "@/lib/sync-fields";
 
-type SyncStatus = "idle" | "triggering" | "triggered" | "error";
+type SyncStatus = "idle" | "triggering" | "triggered" | "busy" | "error";
+
+const IMAGE_POLICY_LABELS: Record<ImagePolicy, string> = {
+  skip: "Skip items that already have an image",
+  append: "Add the BGG image after existing images",
+  "set-primary": "Add the BGG image as the primary image",
+  "replace-bgg-only": "Replace previously imported BGG images (keep staff photos)",
+  "replace-all": "Replace all images with the BGG image",
+};
 
 export default function Home() {
   const [status, setStatus] = useState<SyncStatus>("idle");
   const [message, setMessage] = useState("");
   const [force, setForce] = useState(false);
   const [filterName, setFilterName] = useState("");
+  const [dryRun, setDryRun] = useState(false);
+  const [imagePolicy, setImagePolicy] = useState<ImagePolicy>("skip");
+  const [inProgress, setInProgress] = useState<SyncRun | null>(null);
+  const [syncImages, setSyncImages] = useState(true);
+  const [syncDescriptions, setSyncDescriptions] = useState(true);
+  const [overwriteDescriptions, setOverwriteDescriptions] = useState(false);
+
+  // The image policy doubles as the image field's overwrite policy
+  const fields: FieldSelection = {
+    ...(syncImages && { image: imagePolicy === "skip" ? "fill-if-empty" : "overwrite" }),
+    ...(syncDescriptions && { description: overwriteDescriptions ? "overwrite" : "fill-if-empty" }),
+  };
+  const noFields = !syncImages && !syncDescriptions;
 
-  async function handleSync() {
+  async function handleSync(queue = false) {
     setStatus("triggering");
     setMessage("");
+    setInProgress(null);
 
     try {
       const res = await fetch("/api/trigger-sync", {
@@ -21,6 +46,10 @@ export default function Home() {
         body: JSON.stringify({
           force,
           filterName: filterName.trim() || undefined,
+          dryRun,
+          imagePolicy,
+          fields,
+          queue,
         }),
       });
 
@@ -29,6 +58,10 @@ export default function Home() {
       if (data.ok) {
         setStatus("triggered");
         setMessage(data.message);
+      } else if (data.inProgress) {
+        setStatus("busy");
+        setInProgress(data.inProgress);
+        setMessage(data.error);
       } else {
         setStatus("error");
         setMessage(
@@ -66,6 +99,21 @@ export default function Home() {
         <p style={{ color: "#94a3b8", fontSize: "0.95rem" }}>
           Import board game images from BoardGameGeek into your Square catalog.
         </p>
+        <a href="/review" style={{ color: "#60a5fa", fontSize: "0.85rem" }}>
+          Review low-confidence matches →
+        </a>
+        {" · "}
+        <a href="/categories" style={{ color: "#60a5fa", fontSize: "0.85rem" }}>
+          Category selection →
+        </a>
+        {" · "}
+        <a href="/runs" style={{ color: "#60a5fa", fontSize: "0.85rem" }}>
+          Sync history →
+        </a>
+        {" · "}
+        <a href="/schedule" style={{ color: "#60a5fa", fontSize: "0.85rem" }}>
+          Schedule →
+        </a>
       </div>
 
       {/* Controls */}
@@ -113,13 +161,95 @@ export default function Home() {
           />
         </label>
 
+        {/* Fields */}
+        <div style={{ marginBottom: "1.5rem" }}>
+          <span
+            style={{
+              display: "block",
+              fontSize: "0.85rem",
+              color: "#94a3b8",
+              marginBottom: 6,
+            }}
+          >
+            Fields to sync
+          </span>
+          <div style={{ display: "flex", flexDirection: "column", gap: 6, fontSize: "0.9rem", color: "#cbd5e1" }}>
+            <label style={{ display: "flex", alignItems: "center", gap: 8, cursor: "pointer" }}>
+              <input
+                type="checkbox"
+                checked={syncImages}
+                onChange={(e) => setSyncImages(e.target.checked)}
+                style={{ accentColor: "#3b82f6" }}
+              />
+              Images
+            </label>
+            <label style={{ display: "flex", alignItems: "center", gap: 8, cursor: "pointer" }}>
+              <input
+                type="checkbox"
+                checked={syncDescriptions}
+                onChange={(e) => setSyncDescriptions(e.target.checked)}
+                style={{ accentColor: "#3b82f6" }}
+              />
+              Descriptions
+            </label>
+            {syncDescriptions && (
+              <label style={{ display: "flex", alignItems: "center", gap: 8, cursor: "pointer", paddingLeft: 24 }}>
+                <input
+                  type="checkbox"
+                  checked={overwriteDescriptions}
+                  onChange={(e) => setOverwriteDescriptions(e.target.checked)}
+                  style={{ accentColor: "#3b82f6" }}
+                />
+                Overwrite existing descriptions
+              </label>
+            )}
+          </div>
+        </div>
+
+        {/* Image policy */}
+        {syncImages && (
+          <label style={{ display: "block", marginBottom: "1.5rem" }}>
+            <span
+              style={{
+                display: "block",
+                fontSize: "0.85rem",
+                color: "#94a3b8",
+                marginBottom: 6,
+              }}
+            >
+              Existing images
+            </span>
+            <select
+              value={imagePolicy}
+              onChange={(e) => setImagePolicy(e.target.value as ImagePolicy)}
+              style={{
+                width: "100%",
+                padding: "0.65rem 0.85rem",
+                borderRadius: 8,
+                border: "1px solid #475569",
+                background: "#0f172a",
+                color: "#e2e8f0",
+                fontSize: "0.95rem",
+                outline: "none",
+                boxSizing: "border-box",
+              }}
+            >
+              {(Object.keys(IMAGE_POLICY_LABELS) as ImagePolicy[]).map((policy) => (
+                <option key={policy} value={policy}>
+                  {IMAGE_POLICY_LABELS[policy]}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
         {/* Force checkbox */}
         <label
           style={{
             display: "flex",
             alignItems: "center",
             gap: 8,
-            marginBottom: "2rem",
+            marginBottom: "0.75rem",
             cursor: "pointer",
             fontSize: "0.9rem",
             color: "#cbd5e1",
@@ -131,13 +261,34 @@ export default function Home() {
             onChange={(e) => setForce(e.target.checked)}
             style={{ accentColor: "#3b82f6" }}
           />
-          Re-sync items that already have images
+          Re-match items that have nothing to fill (refreshes their BGG id)
+        </label>
+
+        {/* Dry-run checkbox */}
+        <label
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: 8,
+            marginBottom: "2rem",
+            cursor: "pointer",
+            fontSize: "0.9rem",
+            color: "#cbd5e1",
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={dryRun}
+            onChange={(e) => setDryRun(e.target.checked)}
+            style={{ accentColor: "#3b82f6" }}
+          />
+          Dry run – preview BGG matches without writing to Square
         </label>
 
         {/* Sync button */}
         <button
-          onClick={handleSync}
-          disabled={status === "triggering"}
+          onClick={() => handleSync()}
+          disabled={status === "triggering" || noFields}
           style={{
             width: "100%",
             padding: "0.85rem",
@@ -150,15 +301,19 @@ export default function Home() {
             color: "#fff",
             fontWeight: 600,
             fontSize: "1rem",
-            cursor: status === "triggering" ? "wait" : "pointer",
+            cursor: status === "triggering" ? "wait" : noFields ? "not-allowed" : "pointer",
             transition: "opacity 0.2s",
           }}
         >
-          {status === "triggering" ? "Queuing…" : "Start Image Sync"}
+          {status === "triggering"
+            ? "Queuing…"
+            : dryRun
+              ? "Start Dry Run"
+              : "Start Image Sync"}
         </button>
 
         {/* Status message */}
-        {message && (
+        {message && status !== "busy" && (
           <div
             style={{
               marginTop: "1.25rem",
@@ -174,6 +329,43 @@ export default function Home() {
             {message}
           </div>
         )}
+
+        {/* Run already in progress */}
+        {status === "busy" && inProgress && (
+          <div
+            style={{
+              marginTop: "1.25rem",
+              padding: "0.85rem 1rem",
+              borderRadius: 8,
+              background: "#78350f33",
+              border: "1px solid #92400e",
+              color: "#fcd34d",
+              fontSize: "0.9rem",
+            }}
+          >
+            {message}{" "}
+            <a href={`/runs/${encodeURIComponent(inProgress.runId)}`} style={{ color: "#60a5fa" }}>
+              View progress →
+            </a>
+            <button
+              onClick={() => handleSync(true)}
+              style={{
+                display: "block",
+                marginTop: "0.75rem",
+                padding: "0.45rem 0.85rem",
+                borderRadius: 8,
+                border: "none",
+                background: "#b45309",
+                color: "#fff",
+                fontWeight: 600,
+                fontSize: "0.85rem",
+                cursor: "pointer",
+              }}
+            >
+              Queue after current run
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Info */}
@@ -200,8 +392,11 @@ export default function Home() {
         </h3>
         <ol style={{ margin: 0, paddingLeft: "1.25rem" }}>
           <li>
-            Fetches all items from your Square catalog (excluding Drinks &amp;
-            Shirts categories).
+            Fetches items in the game categories chosen under{" "}
+            <a href="/categories" style={{ color: "#60a5fa" }}>
+              category selection
+            </a>{" "}
+            from your Square catalog.
           </li>
           <li>
             Searches <strong>BoardGameGeek</strong> for each item by name (or
@@ -209,7 +404,11 @@ export default function Home() {
           </li>
           <li>
             Verifies the match using year &amp; publisher when metadata is
-            present.
+            present. Low-confidence matches wait in the{" "}
+            <a href="/review" style={{ color: "#60a5fa" }}>
+              review queue
+            </a>{" "}
+            instead of being written.
           </li>
           <li>
             Downloads the high-res image from BGG and uploads it to Square via{" "}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Image from "next/image";
+import type { PendingReview } from "@/lib/review-queue";
+
+type LoadStatus = "loading" | "loaded" | "error";
+
+const cardStyle = {
+  background: "#1e293b",
+  borderRadius: 12,
+  padding: "1.25rem",
+  border: "1px solid #334155",
+  marginBottom: "1rem",
+} as const;
+
+const buttonStyle = {
+  padding: "0.45rem 0.85rem",
+  borderRadius: 8,
+  border: "none",
+  color: "#fff",
+  fontWeight: 600,
+  fontSize: "0.85rem",
+  cursor: "pointer",
+} as const;
+
+export default function ReviewQueue() {
+  const [status, setStatus] = useState<LoadStatus>("loading");
+  const [reviews, setReviews] = useState<PendingReview[]>([]);
+  const [message, setMessage] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setStatus("loading");
+    try {
+      const res = await fetch("/api/reviews");
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error);
+      setReviews(data.reviews);
+      setStatus("loaded");
+    } catch (err: any) {
+      setStatus("error");
+      setMessage(err.message);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function resolve(objectId: string, action: "approve" | "pick" | "reject", bggId?: number) {
+    setBusyId(objectId);
+    setMessage("");
+    try {
+      const res = await fetch(`/api/reviews/${encodeURIComponent(objectId)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, bggId }),
+      });
+      const data = await res.json();
+      setMessage(data.ok ? data.message : `Error: ${data.error}`);
+      if (data.ok) setReviews((prev) => prev.filter((r) => r.objectId !== objectId));
+    } catch (err: any) {
+      setMessage(`Error: ${err.message}`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <main style={{ maxWidth: 800, margin: "0 auto", padding: "4rem 1.5rem" }}>
+      <div style={{ marginBottom: "2rem" }}>
+        <a href="/" style={{ color: "#60a5fa", fontSize: "0.85rem" }}>
+          ← Back to sync
+        </a>
+        <h1 style={{ fontSize: "1.75rem", fontWeight: 700, margin: "0.75rem 0 0.5rem" }}>
+          Match Review Queue
+        </h1>
+        <p style={{ color: "#94a3b8", fontSize: "0.95rem", margin: 0 }}>
+          Low-confidence matches are parked here instead of being written to Square.
+          Approving or picking a candidate resumes the upload.
+        </p>
+      </div>
+
+      {message && (
+        <div
+          style={{
+            ...cardStyle,
+            color: message.startsWith("Error") ? "#fca5a5" : "#86efac",
+            fontSize: "0.9rem",
+          }}
+        >
+          {message}
+        </div>
+      )}
+
+      {status === "loading" && <p style={{ color: "#94a3b8" }}>Loading…</p>}
+      {status === "loaded" && reviews.length === 0 && (
+        <p style={{ color: "#94a3b8" }}>Nothing to review. 🎉</p>
+      )}
+
+      {reviews.map((review) => (
+        <div key={review.objectId} style={cardStyle}>
+          <div style={{ display: "flex", gap: "1rem" }}>
+            {review.proposed.thumbnailUrl && (
+              <Image
+                src={review.proposed.thumbnailUrl}
+                alt={review.proposed.name}
+                width={96}
+                height={96}
+                style={{ objectFit: "contain", borderRadius: 8, background: "#0f172a" }}
+              />
+            )}
+            <div style={{ flex: 1, fontSize: "0.9rem" }}>
+              <div style={{ fontWeight: 600, fontSize: "1rem", color: "#e2e8f0" }}>{review.item.name}</div>
+              <div style={{ color: "#cbd5e1", marginTop: 4 }}>
+                → BGG #{review.proposed.bggId} “{review.proposed.name}” ({review.proposed.yearPublished ?? "??"})
+              </div>
+              <div style={{ color: "#94a3b8", marginTop: 4 }}>
+                Confidence <strong style={{ color: "#fbbf24" }}>{review.confidence}</strong> · searched “
+                {review.searchName}” · {review.reason}
+              </div>
+            </div>
+          </div>
+
+          <div style={{ display: "flex", gap: 8, marginTop: "1rem" }}>
+            <button
+              disabled={busyId === review.objectId}
+              onClick={() => resolve(review.objectId, "approve")}
+              style={{ ...buttonStyle, background: "#16a34a" }}
+            >
+              Approve
+            </button>
+            <button
+              disabled={busyId === review.objectId}
+              onClick={() => resolve(review.objectId, "reject")}
+              style={{ ...buttonStyle, background: "#b91c1c" }}
+            >
+              Reject
+            </button>
+          </div>
+
+          {review.candidates.length > 1 && (
+            <table style={{ width: "100%", marginTop: "1rem", fontSize: "0.8rem", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ color: "#94a3b8", textAlign: "left" }}>
+                  <th>Candidate</th>
+                  <th>Score</th>
+                  <th>Why not</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {review.candidates
+                  .filter((c) => c.bggId !== review.proposed.bggId)
+                  .map((c) => (
+                    <tr key={c.bggId} style={{ borderTop: "1px solid #334155" }}>
+                      <td style={{ padding: "0.35rem 0" }}>
+                        <a
+                          href={`https://boardgamegeek.com/boardgame/${c.bggId}`}
+                          target="_blank"
+                          rel="noreferrer"
+                          style={{ color: "#60a5fa" }}
+                        >
+                          #{c.bggId} {c.name} ({c.yearPublished ?? "??"})
+                        </a>
+                      </td>
+                      <td>{c.score}</td>
+                      <td style={{ color: "#94a3b8" }}>{c.rejectedBecause ?? ""}</td>
+                      <td style={{ textAlign: "right" }}>
+                        <button
+                          disabled={busyId === review.objectId}
+                          onClick={() => resolve(review.objectId, "pick", c.bggId)}
+                          style={{ ...buttonStyle, background: "#3b82f6", padding: "0.25rem 0.6rem" }}
+                        >
+                          Use this
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ))}
+    </main>
+  );
+}
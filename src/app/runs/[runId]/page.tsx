@@ -0,0 +1,258 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Image from "next/image";
+import type { RunDescriptionResult, RunItemOutcome, RunItemStatus, SyncRun } from "@/lib/run-store";
+import type { BggRequestStats } from "@/lib/bgg-rate-limit";
+import { describeParams, formatTime, htmlToText, STATUS_COLORS, statusLabel } from "../format";
+
+type LoadStatus = "loading" | "loaded" | "error";
+type RunItem = RunItemOutcome & { description: RunDescriptionResult | null };
+type ItemFilter = "all" | "no_match" | "failed" | "low_confidence";
+
+const FILTERS: { value: ItemFilter; label: string; test: (item: RunItem) => boolean }[] = [
+  { value: "all", label: "All", test: () => true },
+  { value: "no_match", label: "No match", test: (item) => item.status === "no_match" },
+  {
+    value: "failed",
+    label: "Failed",
+    test: (item) =>
+      item.status === "failed" || item.status === "square_error" || item.description?.status === "failed",
+  },
+  { value: "low_confidence", label: "Low confidence", test: (item) => item.lowConfidence },
+];
+
+const cardStyle = {
+  background: "#1e293b",
+  borderRadius: 12,
+  padding: "1.25rem",
+  border: "1px solid #334155",
+  marginBottom: "1rem",
+} as const;
+
+const buttonStyle = {
+  padding: "0.35rem 0.75rem",
+  borderRadius: 8,
+  border: "1px solid #475569",
+  color: "#e2e8f0",
+  fontWeight: 600,
+  fontSize: "0.8rem",
+  cursor: "pointer",
+} as const;
+
+const imageStyle = { objectFit: "contain", borderRadius: 8, background: "#0f172a" } as const;
+
+const descriptionStyle = {
+  marginTop: 8,
+  padding: "0.75rem",
+  background: "#0f172a",
+  borderRadius: 8,
+  whiteSpace: "pre-wrap",
+} as const;
+
+/** Why an item didn't (fully) sync, if it didn't. */
+function failureReason(item: RunItem): string | null {
+  if (item.error) return item.failedStep ? `${item.failedStep}: ${item.error}` : item.error;
+  if (item.description?.error) return `description: ${item.description.error.message}`;
+  if (item.imageRejected) return `image rejected: ${item.imageRejected}`;
+  if (item.status === "no_match") return "no BGG match found";
+  return null;
+}
+
+function ImageBox({ label, src }: { label: string; src: string | null }) {
+  return (
+    <div style={{ fontSize: "0.75rem", color: "#94a3b8", textAlign: "center" }}>
+      {src ? (
+        <Image src={src} alt={label} width={120} height={120} style={imageStyle} />
+      ) : (
+        <div style={{ ...imageStyle, width: 120, height: 120, display: "grid", placeItems: "center" }}>none</div>
+      )}
+      <div style={{ marginTop: 4 }}>{label}</div>
+    </div>
+  );
+}
+
+export default function RunDetail({ params }: { params: { runId: string } }) {
+  const [status, setStatus] = useState<LoadStatus>("loading");
+  const [run, setRun] = useState<SyncRun | null>(null);
+  const [items, setItems] = useState<RunItem[]>([]);
+  const [bggStats, setBggStats] = useState<BggRequestStats | null>(null);
+  const [message, setMessage] = useState("");
+  const [filter, setFilter] = useState<ItemFilter>("all");
+
+  const load = useCallback(async () => {
+    setStatus("loading");
+    try {
+      const res = await fetch(`/api/runs/${encodeURIComponent(params.runId)}`);
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error);
+      setRun(data.run);
+      setItems(data.items);
+      setBggStats(data.bggStats);
+      setStatus("loaded");
+    } catch (err: any) {
+      setStatus("error");
+      setMessage(`Error: ${err.message}`);
+    }
+  }, [params.runId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const activeFilter = FILTERS.find((f) => f.value === filter)!;
+  const shown = items.filter(activeFilter.test);
+
+  return (
+    <main style={{ maxWidth: 900, margin: "0 auto", padding: "4rem 1.5rem" }}>
+      <div style={{ marginBottom: "2rem" }}>
+        <a href="/runs" style={{ color: "#60a5fa", fontSize: "0.85rem" }}>
+          ← All runs
+        </a>
+        <h1 style={{ fontSize: "1.75rem", fontWeight: 700, margin: "0.75rem 0 0.5rem" }}>
+          Sync Run {run ? formatTime(run.startedAt) : ""}
+        </h1>
+        {run && (
+          <p style={{ color: "#94a3b8", fontSize: "0.95rem", margin: 0 }}>
+            {run.status === "running"
+              ? run.dispatchedAt
+                ? `Running – ${items.length} of ${run.totalItems} items finished`
+                : "Running – fetching catalog…"
+              : run.status === "failed"
+                ? `Failed ${formatTime(run.completedAt)} – ${items.length} of ${run.totalItems} items finished`
+                : `Finished ${formatTime(run.completedAt)} – ${run.totalItems} items`}
+            {" · "}
+            {describeParams(run.params)}
+          </p>
+        )}
+      </div>
+
+      {message && <div style={{ ...cardStyle, color: "#fca5a5", fontSize: "0.9rem" }}>{message}</div>}
+      {run?.error && <div style={{ ...cardStyle, color: "#fca5a5", fontSize: "0.9rem" }}>Run failed: {run.error}</div>}
+      {status === "loading" && <p style={{ color: "#94a3b8" }}>Loading…</p>}
+
+      {run && (
+        <>
+          {/* Totals */}
+          <div style={{ ...cardStyle, fontSize: "0.9rem" }}>
+            <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem" }}>
+              {(Object.entries(run.counts) as [RunItemStatus, number][]).map(([s, n]) => (
+                <span key={s} style={{ color: STATUS_COLORS[s] }}>
+                  {n} {statusLabel(s)}
+                </span>
+              ))}
+            </div>
+            {bggStats && (
+              <div style={{ color: "#64748b", marginTop: 8, fontSize: "0.8rem" }}>
+                BGG: {bggStats.requests} requests, {bggStats.rateLimited} rate-limited, {bggStats.retries} retries
+              </div>
+            )}
+          </div>
+
+          {/* Filters */}
+          <div style={{ display: "flex", gap: 8, marginBottom: "1rem" }}>
+            {FILTERS.map((f) => (
+              <button
+                key={f.value}
+                onClick={() => setFilter(f.value)}
+                style={{ ...buttonStyle, background: filter === f.value ? "#3b82f6" : "#1e293b" }}
+              >
+                {f.label} ({items.filter(f.test).length})
+              </button>
+            ))}
+            <button onClick={load} style={{ ...buttonStyle, background: "#1e293b", marginLeft: "auto" }}>
+              Refresh
+            </button>
+          </div>
+
+          {status === "loaded" && shown.length === 0 && (
+            <p style={{ color: "#94a3b8" }}>No items match this filter.</p>
+          )}
+
+          {/* Items */}
+          {shown.map((item) => {
+            const reason = failureReason(item);
+            return (
+              <div key={item.objectId} style={cardStyle}>
+                <div style={{ display: "flex", justifyContent: "space-between", gap: "1rem", fontSize: "0.9rem" }}>
+                  <div>
+                    <div style={{ fontWeight: 600, fontSize: "1rem", color: "#e2e8f0" }}>{item.name}</div>
+                    {item.bggId && (
+                      <div style={{ color: "#cbd5e1", marginTop: 4 }}>
+                        →{" "}
+                        <a
+                          href={`https://boardgamegeek.com/boardgame/${item.bggId}`}
+                          target="_blank"
+                          rel="noreferrer"
+                          style={{ color: "#60a5fa" }}
+                        >
+                          BGG #{item.bggId} “{item.bggName}” ({item.bggYear ?? "??"})
+                        </a>
+                        {item.confidence !== null && (
+                          <span style={{ color: item.lowConfidence ? "#fbbf24" : "#94a3b8" }}>
+                            {" "}
+                            · confidence {item.confidence}
+                          </span>
+                        )}
+                      </div>
+                    )}
+                    {item.matchReason && (
+                      <div style={{ color: "#94a3b8", marginTop: 4, fontSize: "0.8rem" }}>
+                        {item.searchName && item.searchName !== item.name && <>searched “{item.searchName}” · </>}
+                        {item.matchReason}
+                      </div>
+                    )}
+                    {reason && <div style={{ color: "#fca5a5", marginTop: 4 }}>{reason}</div>}
+                  </div>
+                  <div style={{ textAlign: "right", whiteSpace: "nowrap" }}>
+                    <div style={{ color: STATUS_COLORS[item.status], fontWeight: 600 }}>{statusLabel(item.status)}</div>
+                    <div style={{ color: "#64748b", fontSize: "0.8rem" }}>{(item.durationMs / 1000).toFixed(1)}s</div>
+                  </div>
+                </div>
+
+                {(item.thumbnailUrl || item.imageBefore || item.imageAfter) && (
+                  <div style={{ display: "flex", gap: "1rem", marginTop: "1rem" }}>
+                    {item.thumbnailUrl && <ImageBox label="BGG match" src={item.thumbnailUrl} />}
+                    {(item.imageBefore || item.imageAfter) && (
+                      <>
+                        <ImageBox label="Square before" src={item.imageBefore} />
+                        <ImageBox label={item.status === "dry_run" ? "Would upload" : "Uploaded"} src={item.imageAfter} />
+                      </>
+                    )}
+                  </div>
+                )}
+
+                {item.descriptionAfter && (
+                  <details style={{ marginTop: "1rem", fontSize: "0.85rem", color: "#cbd5e1" }}>
+                    <summary style={{ cursor: "pointer", color: "#94a3b8" }}>
+                      Description: {item.descriptionReplaced ? "existing text" : "(empty)"} →{" "}
+                      {item.status === "dry_run"
+                        ? "would write BGG text"
+                        : item.description
+                          ? `BGG text (${item.description.status})`
+                          : item.descriptionQueued
+                            ? "BGG text (queued)"
+                            : "BGG text"}
+                    </summary>
+                    {item.descriptionBefore && (
+                      <>
+                        <div style={{ marginTop: 12, color: "#94a3b8" }}>Before</div>
+                        <div style={{ ...descriptionStyle, color: "#94a3b8" }}>
+                          {htmlToText(item.descriptionBefore)}
+                        </div>
+                      </>
+                    )}
+                    <div style={{ marginTop: 12, color: "#94a3b8" }}>After</div>
+                    <div style={descriptionStyle}>
+                      {htmlToText(item.descriptionAfter)}
+                    </div>
+                  </details>
+                )}
+              </div>
+            );
+          })}
+        </>
+      )}
+    </main>
+  );
+}
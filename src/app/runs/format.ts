@@ -0,0 +1,57 @@
+import type { RunItemStatus, SyncRun } from "@/lib/run-store";
+import { SYNC_FIELDS } from "@/lib/sync-fields";
+
+/** Display helpers shared by the run history and run detail pages. */
+
+export const STATUS_COLORS: Record<RunItemStatus, string> = {
+  synced: "#86efac",
+  dry_run: "#93c5fd",
+  pending_review: "#fbbf24",
+  no_match: "#fca5a5",
+  square_error: "#f87171",
+  failed: "#f87171",
+  skipped_override: "#94a3b8",
+  review_rejected: "#94a3b8",
+};
+
+export const RUN_STATUS_COLORS: Record<SyncRun["status"], string> = {
+  running: "#fbbf24",
+  completed: "#94a3b8",
+  failed: "#f87171",
+};
+
+export function statusLabel(status: RunItemStatus) {
+  return status.replace(/_/g, " ");
+}
+
+export function formatTime(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString() : "—";
+}
+
+/** "dry run · force · filter “catan”" – only the options that differ from a plain run. */
+export function describeParams(params: SyncRun["params"]) {
+  const parts: string[] = [];
+  if (params.trigger === "schedule") parts.push("scheduled");
+  if (params.dryRun) parts.push("dry run");
+  if (params.force) parts.push("force");
+  if (params.filterName) parts.push(`filter “${params.filterName}”`);
+  if (params.incremental) parts.push(params.since ? `changed since ${formatTime(params.since)}` : "incremental");
+  if (params.imagePolicy !== "skip") parts.push(`images: ${params.imagePolicy}`);
+  // Runs recorded before field selection existed have no `fields`
+  if (params.fields) {
+    const fields = Object.entries(params.fields);
+    if (fields.length < SYNC_FIELDS.length) parts.push(`only ${fields.map(([field]) => field).join(", ")}`);
+    if (params.fields.description === "overwrite") parts.push("overwrite descriptions");
+  }
+  if (params.confidenceThreshold !== null) parts.push(`threshold ${params.confidenceThreshold}`);
+  return parts.length > 0 ? parts.join(" · ") : "default options";
+}
+
+/** Plain text of a description, for display without injecting BGG-sourced HTML. */
+export function htmlToText(html: string) {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/p>\s*/gi, "\n\n")
+    .replace(/<[^>]*>/g, "")
+    .trim();
+}
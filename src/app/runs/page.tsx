@@ -0,0 +1,90 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { RunItemStatus, SyncRun } from "@/lib/run-store";
+import { describeParams, formatTime, RUN_STATUS_COLORS, STATUS_COLORS, statusLabel } from "./format";
+
+type LoadStatus = "loading" | "loaded" | "error";
+
+const cardStyle = {
+  background: "#1e293b",
+  borderRadius: 12,
+  padding: "1.25rem",
+  border: "1px solid #334155",
+  marginBottom: "1rem",
+} as const;
+
+export default function RunHistory() {
+  const [status, setStatus] = useState<LoadStatus>("loading");
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [message, setMessage] = useState("");
+
+  const load = useCallback(async () => {
+    setStatus("loading");
+    try {
+      const res = await fetch("/api/runs");
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error);
+      setRuns(data.runs);
+      setStatus("loaded");
+    } catch (err: any) {
+      setStatus("error");
+      setMessage(`Error: ${err.message}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <main style={{ maxWidth: 800, margin: "0 auto", padding: "4rem 1.5rem" }}>
+      <div style={{ marginBottom: "2rem" }}>
+        <a href="/" style={{ color: "#60a5fa", fontSize: "0.85rem" }}>
+          ← Back to sync
+        </a>
+        <h1 style={{ fontSize: "1.75rem", fontWeight: 700, margin: "0.75rem 0 0.5rem" }}>Sync History</h1>
+        <p style={{ color: "#94a3b8", fontSize: "0.95rem", margin: 0 }}>
+          Every sync run with its options and how its items turned out. Open a run to audit each item.
+        </p>
+      </div>
+
+      {message && <div style={{ ...cardStyle, color: "#fca5a5", fontSize: "0.9rem" }}>{message}</div>}
+
+      {status === "loading" && <p style={{ color: "#94a3b8" }}>Loading…</p>}
+      {status === "loaded" && runs.length === 0 && <p style={{ color: "#94a3b8" }}>No runs recorded yet.</p>}
+
+      {runs.map((run) => (
+        <a
+          key={run.runId}
+          href={`/runs/${encodeURIComponent(run.runId)}`}
+          style={{ ...cardStyle, display: "block", textDecoration: "none", fontSize: "0.9rem" }}
+        >
+          <div style={{ display: "flex", justifyContent: "space-between", gap: "1rem" }}>
+            <div style={{ fontWeight: 600, color: "#e2e8f0" }}>{formatTime(run.startedAt)}</div>
+            <div style={{ color: RUN_STATUS_COLORS[run.status] }}>
+              {run.status === "running"
+                ? run.dispatchedAt
+                  ? "running…"
+                  : "fetching catalog…"
+                : `${run.status} ${formatTime(run.completedAt)}`}
+            </div>
+          </div>
+          {run.error && <div style={{ color: "#fca5a5", marginTop: 4 }}>{run.error}</div>}
+          <div style={{ color: "#94a3b8", marginTop: 4 }}>
+            {run.totalItems} item{run.totalItems === 1 ? "" : "s"} · {describeParams(run.params)}
+          </div>
+          {Object.keys(run.counts).length > 0 && (
+            <div style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem", marginTop: 8 }}>
+              {(Object.entries(run.counts) as [RunItemStatus, number][]).map(([s, n]) => (
+                <span key={s} style={{ color: STATUS_COLORS[s] }}>
+                  {n} {statusLabel(s)}
+                </span>
+              ))}
+            </div>
+          )}
+        </a>
+      ))}
+    </main>
+  );
+}
@@ -0,0 +1,244 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { ScheduleConfig, ScheduledSyncOptions } from "@/lib/schedule";
+import type { ImagePolicy } from "@/lib/square";
+import type { FieldPolicy, FieldSelection, SyncField } from "@/lib/sync-fields";
+
+type LoadStatus = "loading" | "loaded" | "error";
+
+const IMAGE_POLICIES: ImagePolicy[] = ["skip", "append", "set-primary", "replace-bgg-only", "replace-all"];
+
+const cardStyle = {
+  background: "#1e293b",
+  borderRadius: 12,
+  padding: "1.25rem",
+  border: "1px solid #334155",
+  marginBottom: "1rem",
+} as const;
+
+const buttonStyle = {
+  padding: "0.45rem 0.85rem",
+  borderRadius: 8,
+  border: "none",
+  color: "#fff",
+  fontWeight: 600,
+  fontSize: "0.85rem",
+  cursor: "pointer",
+} as const;
+
+const inputStyle = {
+  padding: "0.4rem 0.6rem",
+  borderRadius: 6,
+  border: "1px solid #475569",
+  background: "#0f172a",
+  color: "#e2e8f0",
+  fontSize: "0.85rem",
+} as const;
+
+const labelStyle = { color: "#cbd5e1", display: "flex", gap: 8, alignItems: "center" } as const;
+
+export default function Schedule() {
+  const [status, setStatus] = useState<LoadStatus>("loading");
+  const [config, setConfig] = useState<ScheduleConfig | null>(null);
+  const [cron, setCron] = useState("");
+  const [message, setMessage] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    setStatus("loading");
+    try {
+      const res = await fetch("/api/schedule");
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error);
+      setConfig(data.config);
+      setCron(data.cron);
+      setStatus("loaded");
+    } catch (err: any) {
+      setStatus("error");
+      setMessage(`Error: ${err.message}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  async function save(next: ScheduleConfig, doneMessage: string) {
+    setSaving(true);
+    setMessage("");
+    try {
+      const res = await fetch("/api/schedule", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(next),
+      });
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error);
+      setConfig(data.config);
+      setMessage(doneMessage);
+    } catch (err: any) {
+      setMessage(`Error: ${err.message}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const updateOptions = (patch: Partial<ScheduledSyncOptions>) =>
+    setConfig((prev) => (prev ? { ...prev, options: { ...prev.options, ...patch } } : prev));
+
+  /** Select a field with a policy, or drop it with null. */
+  const updateField = (field: SyncField, policy: FieldPolicy | null) => {
+    if (!config) return;
+    const fields: FieldSelection = { ...config.options.fields };
+    if (policy) fields[field] = policy;
+    else delete fields[field];
+    updateOptions({ fields });
+  };
+
+  // The image policy doubles as the image field's overwrite policy
+  const imageFieldPolicy = (policy: ImagePolicy): FieldPolicy => (policy === "skip" ? "fill-if-empty" : "overwrite");
+
+  return (
+    <main style={{ maxWidth: 800, margin: "0 auto", padding: "4rem 1.5rem" }}>
+      <div style={{ marginBottom: "2rem" }}>
+        <a href="/" style={{ color: "#60a5fa", fontSize: "0.85rem" }}>
+          ← Back to sync
+        </a>
+        <h1 style={{ fontSize: "1.75rem", fontWeight: 700, margin: "0.75rem 0 0.5rem" }}>Scheduled Sync</h1>
+        <p style={{ color: "#94a3b8", fontSize: "0.95rem", margin: 0 }}>
+          A sync starts automatically on the schedule below. A tick is skipped while a previous run is still in
+          progress.
+        </p>
+      </div>
+
+      {message && (
+        <div
+          style={{
+            ...cardStyle,
+            color: message.startsWith("Error") ? "#fca5a5" : "#86efac",
+            fontSize: "0.9rem",
+          }}
+        >
+          {message}
+        </div>
+      )}
+
+      {status === "loading" && <p style={{ color: "#94a3b8" }}>Loading…</p>}
+
+      {config && (
+        <>
+          {/* Pause / resume */}
+          <div style={{ ...cardStyle, display: "flex", alignItems: "center", gap: "1rem", fontSize: "0.9rem" }}>
+            <div style={{ flex: 1 }}>
+              <div style={{ fontWeight: 600, color: config.paused ? "#fbbf24" : "#86efac" }}>
+                {config.paused ? "Paused" : "Active"}
+              </div>
+              <div style={{ color: "#94a3b8", marginTop: 4 }}>
+                Cron <code style={{ color: "#e2e8f0" }}>{cron}</code> (set with SYNC_SCHEDULE_CRON)
+              </div>
+            </div>
+            <button
+              disabled={saving}
+              onClick={() =>
+                save(
+                  { ...config, paused: !config.paused },
+                  config.paused ? "Schedule resumed." : "Schedule paused – no syncs start until resumed."
+                )
+              }
+              style={{ ...buttonStyle, background: config.paused ? "#16a34a" : "#b45309" }}
+            >
+              {config.paused ? "Resume" : "Pause"}
+            </button>
+          </div>
+
+          {/* Options */}
+          <div style={{ ...cardStyle, display: "flex", flexDirection: "column", gap: "0.75rem", fontSize: "0.9rem" }}>
+            <div style={{ fontWeight: 600, color: "#e2e8f0" }}>Options for scheduled runs</div>
+            <label style={labelStyle}>
+              <input
+                type="checkbox"
+                checked={config.options.incremental}
+                onChange={(e) => updateOptions({ incremental: e.target.checked })}
+              />
+              Incremental – only items created or changed since the last run
+            </label>
+            <label style={labelStyle}>
+              <input
+                type="checkbox"
+                checked={config.options.force}
+                onChange={(e) => updateOptions({ force: e.target.checked })}
+              />
+              Re-match items that have nothing to fill
+            </label>
+            <label style={labelStyle}>
+              <input
+                type="checkbox"
+                checked={config.options.dryRun}
+                onChange={(e) => updateOptions({ dryRun: e.target.checked })}
+              />
+              Dry run – match only, never write to Square
+            </label>
+            <label style={labelStyle}>
+              <input
+                type="checkbox"
+                checked={!!config.options.fields.image}
+                onChange={(e) =>
+                  updateField("image", e.target.checked ? imageFieldPolicy(config.options.imagePolicy) : null)
+                }
+              />
+              Sync images
+            </label>
+            <label style={labelStyle}>
+              <input
+                type="checkbox"
+                checked={!!config.options.fields.description}
+                onChange={(e) => updateField("description", e.target.checked ? "fill-if-empty" : null)}
+              />
+              Sync descriptions
+            </label>
+            {config.options.fields.description && (
+              <label style={{ ...labelStyle, paddingLeft: 24 }}>
+                <input
+                  type="checkbox"
+                  checked={config.options.fields.description === "overwrite"}
+                  onChange={(e) => updateField("description", e.target.checked ? "overwrite" : "fill-if-empty")}
+                />
+                Overwrite existing descriptions
+              </label>
+            )}
+            <label style={labelStyle}>
+              Existing images
+              <select
+                value={config.options.imagePolicy}
+                onChange={(e) => {
+                  const imagePolicy = e.target.value as ImagePolicy;
+                  const { fields } = config.options;
+                  updateOptions({
+                    imagePolicy,
+                    fields: fields.image ? { ...fields, image: imageFieldPolicy(imagePolicy) } : fields,
+                  });
+                }}
+                style={inputStyle}
+              >
+                {IMAGE_POLICIES.map((policy) => (
+                  <option key={policy} value={policy}>
+                    {policy}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <button
+            disabled={saving || Object.keys(config.options.fields).length === 0}
+            onClick={() => save(config, "Saved. The next scheduled run uses these options.")}
+            style={{ ...buttonStyle, background: "#3b82f6" }}
+          >
+            {saving ? "Saving…" : "Save options"}
+          </button>
+        </>
+      )}
+    </main>
+  );
+}
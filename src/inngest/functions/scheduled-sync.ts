@@ -0,0 +1,44 @@
+/**
+ * Inngest function – "Scheduled Sync (cron)"
+ *
+ * Starts a sync on the SYNC_SCHEDULE_CRON schedule (nightly by default)
+ * with the options saved on the dashboard (/schedule), so new stock gets
+ * images without anyone pressing the button. A tick does nothing while the
+ * schedule is paused or a previous run is still in progress.
+ */
+
+import { inngest } from "../client";
+import { getRunInProgress, getStaleRunMs } from "../../lib/run-store";
+import { getScheduleConfig, getSyncCron } from "../../lib/schedule";
+
+export const scheduledSync = inngest.createFunction(
+  {
+    id: "scheduled-sync",
+    name: "Scheduled Sync (cron)",
+  },
+  { cron: getSyncCron() },
+  async ({ step, logger }) => {
+    const decision = await step.run("check-schedule", async () => {
+      const config = await getScheduleConfig();
+      if (config.paused) return { skipped: "schedule is paused", options: null };
+
+      const running = await getRunInProgress(getStaleRunMs());
+      if (running) return { skipped: `run ${running.runId} is still in progress`, options: null };
+
+      return { skipped: null, options: config.options };
+    });
+
+    if (!decision.options) {
+      logger.info(`⏩ Skipping scheduled sync – ${decision.skipped}`);
+      return { started: false, reason: decision.skipped };
+    }
+
+    const { ids } = await step.sendEvent("start-sync", {
+      name: "sync/images.requested",
+      data: { ...decision.options, trigger: "schedule" },
+    });
+
+    logger.info(`🕒 Scheduled sync started (${JSON.stringify(decision.options)})`);
+    return { started: true, eventId: ids[0], options: decision.options };
+  }
+);
@@ -7,16 +7,61 @@
  *      board/card games with UPCs, and dispatches one event per item.
  *
  *   2. syncSingleItem (child) — processes a single item: resolves UPC,
- *      searches BGG, downloads image, uploads to Square.
+ *      searches BGG, downloads image, uploads to Square – writing only the
+ *      run's selected fields (see sync-fields.ts). Matches below the
+ *      confidence threshold are parked in the review queue instead.
+ *      Descriptions are queued for the batched writeDescriptions function
+ *      (see write-descriptions.ts).
  *
  * Each child runs as its own independent Inngest function invocation,
  * so there's no step-replay overhead that would cause timeouts on
  * large catalogs.
  */
 
+import type { GetFunctionInput } from "inngest";
 import { inngest } from "../client";
-import { listCatalogItems, uploadImageToSquareItem, updateItemDescription, SquareCatalogItem } from "../../lib/square";
-import { findBestMatch } from "../../lib/bgg";
+import {
+  listCatalogItems,
+  uploadImageToSquareItem,
+  updateItemDescription,
+  setItemBggId,
+  applyImagePolicy,
+  getItemContent,
+  ImagePolicy,
+  SquareCatalogItem,
+} from "../../lib/square";
+import {
+  applyUpcVersion,
+  BggMatch,
+  BggThingDetail,
+  BggThingType,
+  fetchBggThing,
+  findBestMatch,
+  getConfidenceThreshold,
+  RejectedCandidate,
+  ScoredCandidate,
+} from "../../lib/bgg";
+import { looksLikeExpansion } from "../../lib/name-match";
+import { getReview, saveReview } from "../../lib/review-queue";
+import { getNeverSyncIds, getOverride } from "../../lib/overrides";
+import { addRunBggStats, trackBggRequests } from "../../lib/bgg-rate-limit";
+import { addRunUpcStats, trackUpcLookups } from "../../lib/upc";
+import { getHighWaterMark } from "../../lib/sync-state";
+import { ImageRejectedError } from "../../lib/image-processing";
+import { SquareCallError, SquareErrorReport } from "../../lib/square-call";
+import { batchDescriptionsEnabled } from "./write-descriptions";
+import { FieldSelection, resolveSyncFields, selectsAllFields, SYNC_FIELDS, wantsField } from "../../lib/sync-fields";
+import {
+  claimRun,
+  failRun,
+  getStaleRunMs,
+  markRunDispatched,
+  recordItemOutcome,
+  RunItemOutcome,
+  RunItemStatus,
+  RunParams,
+  SyncRun,
+} from "../../lib/run-store";
 
 // ---------------------------------------------------------------------------
 // Event schemas
@@ -25,10 +70,28 @@ import { findBestMatch } from "../../lib/bgg";
 export type SyncImagesEvent = {
   name: "sync/images.requested";
   data: {
-    /** If true, also re-sync items that already have an image */
+    /** If true, dispatch every item, even those with no selected field to write */
     force?: boolean;
     /** Process only items whose names match this substring (for testing) */
     filterName?: string;
+    /** If true, match against BGG but never write to Square (report only) */
+    dryRun?: boolean;
+    /** Matches below this confidence (0–1) go to the review queue. Defaults to MATCH_CONFIDENCE_THRESHOLD. */
+    confidenceThreshold?: number;
+    /** Optional caller-supplied run id; defaults to this event's id */
+    runId?: string;
+    /** Only fetch items created or changed since the last successful run's high-water mark */
+    incremental?: boolean;
+    /** RFC 3339 timestamp overriding the high-water mark (implies incremental) */
+    since?: string;
+    /** What to do with items' existing images (default "skip") – see ImagePolicy */
+    imagePolicy?: ImagePolicy;
+    /** Fields to write and whether to overwrite existing values (default: fill every empty field) */
+    fields?: FieldSelection;
+    /** Who started the run (default "manual") */
+    trigger?: "manual" | "schedule";
+    /** If another run is in progress, wait for it (true) instead of not running at all (default) */
+    queue?: boolean;
   };
 };
 
@@ -36,9 +99,150 @@ export type SyncSingleItemEvent = {
   name: "sync/item.process";
   data: {
     item: SquareCatalogItem;
+    /** Propagated from the dispatcher – skip all Square writes */
+    dryRun?: boolean;
+    /** Propagated from the dispatcher – see SyncImagesEvent */
+    confidenceThreshold?: number;
+    /** The dispatcher run this item belongs to */
+    runId?: string;
+    /** Propagated from the dispatcher – see SyncImagesEvent */
+    imagePolicy?: ImagePolicy;
+    /** Propagated from the dispatcher – see SyncImagesEvent */
+    fields?: FieldSelection;
   };
 };
 
+export type SyncRunCompletedEvent = {
+  name: "sync/run.completed";
+  data: {
+    runId: string;
+    totalItems: number;
+    /** Items per outcome status */
+    counts: Partial<Record<RunItemStatus, number>>;
+    startedAt: string;
+    completedAt: string;
+    dryRun: boolean;
+  };
+};
+
+/** What a dry run would have written for a single item. */
+export interface DryRunProposal {
+  bggId: number;
+  name: string;
+  yearPublished: number | null;
+  /** BGG type of the match, and what the Square name suggested */
+  type: BggThingType;
+  expectedType: BggThingType;
+  /** For expansions: the base game(s) it expands */
+  baseGames: BggThingDetail["baseGames"];
+  /** BGG version whose product code matched the UPC (its image/year are used) */
+  versionName: string | null;
+  imageUrl: string | null;
+  descriptionLength: number;
+  /** Query that produced the match (UPC-resolved title or Square name) */
+  searchName: string;
+  /** Why the matcher picked this candidate */
+  reason: string;
+  confidence: number;
+  /** True if a real run would park this item for human review */
+  wouldNeedReview: boolean;
+  /** The winner's score breakdown (null for cached decisions) */
+  candidate: ScoredCandidate | null;
+  /** Other candidates and why each lost */
+  rejected: RejectedCandidate[];
+  /** The run's fields and image policy, which decide what would be written */
+  fields: FieldSelection;
+  imagePolicy: ImagePolicy;
+  wouldUploadImage: boolean;
+  wouldUpdateDescription: boolean;
+  /** True if the item's existing description would be overwritten */
+  wouldReplaceDescription: boolean;
+}
+
+function runCompletedEvent(run: SyncRun): SyncRunCompletedEvent {
+  return {
+    name: "sync/run.completed",
+    data: {
+      runId: run.runId,
+      totalItems: run.totalItems,
+      counts: run.counts,
+      startedAt: run.startedAt,
+      completedAt: run.completedAt ?? new Date().toISOString(),
+      dryRun: run.params.dryRun,
+    },
+  };
+}
+
+/** Flatten a child's result into the outcome kept in the run store. */
+function itemOutcome(
+  result: {
+    objectId: string;
+    name: string;
+    status: RunItemStatus;
+    bggId?: number;
+    confidence?: number;
+    matched?: {
+      name: string;
+      yearPublished: number | null;
+      thumbnailUrl: string | null;
+      searchName: string;
+      reason: string;
+    };
+    imageObjectId?: string;
+    imageRejected?: string;
+    imageBefore?: string;
+    imageAfter?: string;
+    descriptionUpdated?: boolean;
+    descriptionQueued?: boolean;
+    descriptionBefore?: string;
+    descriptionAfter?: string;
+    descriptionReplaced?: boolean;
+    failedStep?: string;
+    squareError?: SquareErrorReport;
+  },
+  startedAt: string,
+  threshold: number
+): RunItemOutcome {
+  const finishedAt = new Date().toISOString();
+  return {
+    objectId: result.objectId,
+    name: result.name,
+    status: result.status,
+    startedAt,
+    finishedAt,
+    durationMs: Date.parse(finishedAt) - Date.parse(startedAt),
+    bggId: result.bggId ?? null,
+    confidence: result.confidence ?? null,
+    lowConfidence: result.confidence !== undefined && result.confidence < threshold,
+    bggName: result.matched?.name ?? null,
+    bggYear: result.matched?.yearPublished ?? null,
+    thumbnailUrl: result.matched?.thumbnailUrl ?? null,
+    searchName: result.matched?.searchName ?? null,
+    matchReason: result.matched?.reason ?? null,
+    imageObjectId: result.imageObjectId ?? null,
+    imageRejected: result.imageRejected ?? null,
+    imageBefore: result.imageBefore ?? null,
+    imageAfter: result.imageAfter ?? null,
+    descriptionUpdated: result.descriptionUpdated ?? false,
+    descriptionQueued: result.descriptionQueued ?? false,
+    descriptionBefore: result.descriptionBefore ?? null,
+    descriptionAfter: result.descriptionAfter ?? null,
+    descriptionReplaced: result.descriptionReplaced ?? false,
+    error: result.squareError?.message ?? null,
+    failedStep: result.failedStep ?? null,
+    squareError: result.squareError ?? null,
+  };
+}
+
+/**
+ * Report a Square failure retrying won't fix (deleted item, missing
+ * permission, rejected request); rethrow anything else so Inngest retries.
+ */
+function permanentSquareError(err: unknown): SquareErrorReport {
+  if (err instanceof SquareCallError && !err.transient) return err.toReport();
+  throw err;
+}
+
 // ---------------------------------------------------------------------------
 // Parent function – fetch catalog and fan out
 // ---------------------------------------------------------------------------
@@ -48,33 +252,114 @@ export const syncImages = inngest.createFunction(
     id: "sync-bgg-images-to-square",
     name: "Sync BGG Images → Square (Dispatcher)",
     cancelOn: [{ event: "sync/images.cancel" }],
+    // One dispatcher step at a time, so claiming a run can't race another trigger
+    concurrency: { limit: 1 },
+    // Release the claimed run so queued and scheduled runs aren't blocked
+    onFailure: async ({ event, error, step }) => {
+      const original = event.data.event;
+      const runId = original.data.runId ?? original.id;
+      if (runId) await step.run("fail-run", () => failRun(runId, error.message));
+    },
   },
   { event: "sync/images.requested" },
   async ({ event, step, logger }) => {
     const force = event.data.force ?? false;
     const filterName = event.data.filterName;
+    const dryRun = event.data.dryRun ?? false;
+    const confidenceThreshold = event.data.confidenceThreshold;
+    const runId = event.data.runId ?? event.id ?? `run-${event.ts ?? Date.now()}`;
+    const incremental = event.data.incremental ?? !!event.data.since;
+    const { fields, imagePolicy } = resolveSyncFields(event.data.fields, event.data.imagePolicy ?? "skip");
+
+    // -----------------------------------------------------------------------
+    // Step 0 – Single flight: claim the run, or wait for the one in progress
+    // -----------------------------------------------------------------------
+    const params: RunParams = {
+      trigger: event.data.trigger ?? "manual",
+      force,
+      filterName: filterName ?? null,
+      dryRun,
+      incremental,
+      since: event.data.since ?? null,
+      imagePolicy,
+      fields,
+      confidenceThreshold: confidenceThreshold ?? null,
+    };
+    for (let attempt = 0; ; attempt++) {
+      const blockedBy = await step.run(`claim-run-${attempt}`, () => claimRun(runId, params, getStaleRunMs()));
+      if (!blockedBy) break;
+
+      // The trigger route's in-progress check can race a second press; only queued runs wait
+      if (!event.data.queue) {
+        logger.info(`⏩ Not starting – run ${blockedBy.runId} is still in progress`);
+        return {
+          message: `Not started: run ${blockedBy.runId} is still in progress.`,
+          totalItems: 0,
+          dryRun,
+          runId,
+          blockedBy: blockedBy.runId,
+        };
+      }
+
+      // Re-check every 15 minutes in case the completion event was missed (or the run went stale)
+      logger.info(`⏳ Run ${blockedBy.runId} is still in progress – queued behind it`);
+      await step.waitForEvent(`wait-for-run-${attempt}`, {
+        event: "sync/run.completed",
+        if: `async.data.runId == "${blockedBy.runId}"`,
+        timeout: "15m",
+      });
+    }
 
     // -----------------------------------------------------------------------
     // Step 1 – Fetch catalog (board/card games with UPCs only)
     // -----------------------------------------------------------------------
-    const allItems = await step.run("fetch-square-catalog", async () => {
-      logger.info("Fetching Square catalog items (board/card games with UPCs)…");
-      const items = await listCatalogItems();
+    const { items: allItems, since, highWaterMark } = await step.run("fetch-square-catalog", async () => {
+      const scanStartedAt = new Date().toISOString();
+      const stored = await getHighWaterMark();
+      const since = event.data.since ?? (incremental ? stored?.since : undefined);
+      if (incremental && !since) logger.info("No high-water mark recorded yet – falling back to a full scan");
+
+      // The scan start becomes the new mark once the run completes with no failed
+      // items – only for a real run over the whole selection and every field (a
+      // description-only run mustn't hide items still missing images), and never
+      // from a `since` later than the stored mark (items changed in between were skipped)
+      const coversMark =
+        !event.data.since || (!!stored && Date.parse(event.data.since) <= Date.parse(stored.since));
+      const advancesMark = !dryRun && !filterName && selectsAllFields(fields) && coversMark;
+
+      logger.info(
+        `Fetching Square catalog items (board/card games with UPCs)${since ? ` changed since ${since}` : ""}…`
+      );
+      const items = await listCatalogItems({ since });
       logger.info(`Found ${items.length} game items with UPCs`);
-      return items;
+      return { items, since: since ?? null, highWaterMark: advancesMark ? scanStartedAt : null };
     });
 
-    // Filter – process items that are missing an image OR a description
-    let items = allItems;
+    // Skip items pinned as "never sync" via /api/overrides
+    const neverSync = await step.run("load-never-sync-overrides", async () => {
+      return [...(await getNeverSyncIds())];
+    });
+
+    // Filter – process items with at least one selected field to write
+    // (a field set to "overwrite" is written on every item)
+    let items = allItems.filter((i) => !neverSync.includes(i.objectId));
     if (!force) {
-      items = items.filter((i) => !i.hasImage || !i.hasDescription);
+      items = items.filter((i) => SYNC_FIELDS.some((field) => wantsField(i, fields, field)));
     }
     if (filterName) {
       const lower = filterName.toLowerCase();
       items = items.filter((i) => i.name.toLowerCase().includes(lower));
     }
 
-    logger.info(`Dispatching ${items.length} items for processing`);
+    logger.info(`Dispatching ${items.length} items for processing${dryRun ? " (dry run)" : ""}`);
+
+    // Record the fan-out before sending, so children can count against its total
+    const run = await step.run("record-run-dispatched", async () => {
+      return markRunDispatched(runId, items.length, since, highWaterMark);
+    });
+    if (run.status === "completed") {
+      await step.sendEvent("run-completed", runCompletedEvent(run));
+    }
 
     // -----------------------------------------------------------------------
     // Step 2 – Fan out: send one event per item (batched in groups of 100)
@@ -84,17 +369,47 @@ export const syncImages = inngest.createFunction(
       const batch = items.slice(i, i + BATCH_SIZE);
       await step.sendEvent(`dispatch-batch-${i}`, batch.map((item) => ({
         name: "sync/item.process" as const,
-        data: { item },
+        data: { item, dryRun, confidenceThreshold, runId, imagePolicy, fields },
       })));
     }
 
     return {
-      message: `Dispatched ${items.length} items for image sync.`,
+      message: `Dispatched ${items.length} items for ${dryRun ? "dry-run matching" : "image sync"}.`,
       totalItems: items.length,
+      dryRun,
+      runId,
+      since,
     };
   }
 );
 
+// ---------------------------------------------------------------------------
+// Cancellation – release the run (onFailure doesn't fire for cancelled runs)
+// ---------------------------------------------------------------------------
+
+/** Inngest's cancellation event also carries the cancelled run's trigger. */
+type CancelledDispatcherData = { event?: { id?: string; data?: SyncImagesEvent["data"] } };
+
+export const syncImagesCancelled = inngest.createFunction(
+  {
+    id: "sync-bgg-images-cancelled",
+    name: "Release Cancelled Sync Run",
+  },
+  {
+    event: "inngest/function.cancelled",
+    if: `event.data.function_id == '${syncImages.id(inngest.id)}'`,
+  },
+  async ({ event, step, logger }) => {
+    const original = (event.data as CancelledDispatcherData).event;
+    const runId = original?.data?.runId ?? original?.id;
+    if (!runId) return { released: null };
+
+    await step.run("fail-run", () => failRun(runId, "Cancelled"));
+    logger.info(`🛑 Run ${runId} was cancelled – released`);
+    return { released: runId };
+  }
+);
+
 // ---------------------------------------------------------------------------
 // Child function – process a single item
 // ---------------------------------------------------------------------------
@@ -104,86 +419,429 @@ export const syncSingleItem = inngest.createFunction(
     id: "sync-single-item",
     name: "Sync Single Item (BGG → Square)",
     retries: 2,
-    concurrency: {
+    concurrency: [
       // Limit concurrent item syncs to be kind to BGG rate limits
-      limit: 3,
+      { limit: 3 },
+      // Never process one Square item twice at once (e.g. a review approval during a run)
+      { limit: 1, key: "event.data.item.objectId" },
+    ],
+    // Out of retries – still count the item, so the run can complete
+    onFailure: async ({ event, error, step }) => {
+      const original = event.data.event;
+      const runId: string | undefined = original.data.runId;
+      if (!runId) return;
+
+      const completedRun = await step.run("record-failure", () => {
+        const startedAt = new Date(original.ts ?? Date.now()).toISOString();
+        return recordItemOutcome(runId, {
+          ...itemOutcome(
+            { objectId: original.data.item.objectId, name: original.data.item.name, status: "failed" },
+            startedAt,
+            original.data.confidenceThreshold ?? getConfidenceThreshold()
+          ),
+          error: error.message,
+        });
+      });
+      if (completedRun) await step.sendEvent("run-completed", runCompletedEvent(completedRun));
     },
   },
   { event: "sync/item.process" },
-  async ({ event, step, logger }) => {
-    const { item } = event.data;
+  async (input) => {
+    const { event, step } = input;
+    const runId: string | undefined = event.data.runId;
+    const threshold: number = event.data.confidenceThreshold ?? getConfidenceThreshold();
+    const startedAt = await step.run("mark-started", async () => new Date().toISOString());
+
+    const result = await processItem(input);
+
+    // Record the outcome on the run; the last item to finish closes it
+    if (runId) {
+      const completedRun = await step.run("record-outcome", () =>
+        recordItemOutcome(runId, itemOutcome(result, startedAt, threshold))
+      );
+      if (completedRun) await step.sendEvent("run-completed", runCompletedEvent(completedRun));
+    }
+
+    return result;
+  }
+);
+
+/** Match one item against BGG and write what's missing to Square. */
+async function processItem({ event, step, logger }: GetFunctionInput<typeof inngest>) {
+  const { item } = event.data;
+  const dryRun = event.data.dryRun ?? false;
+  const threshold = event.data.confidenceThreshold ?? getConfidenceThreshold();
+  const runId = event.data.runId;
+  const { fields, imagePolicy } = resolveSyncFields(event.data.fields, event.data.imagePolicy ?? "skip");
+
+  // Step 0 – Honor manual overrides and a reviewer's earlier rejection
+  const { override, reviewStatus } = await step.run("check-override-and-review", async () => {
+    const override = await getOverride(item.objectId);
+    const review = await getReview(item.objectId);
+    return { override, reviewStatus: review?.status ?? null };
+  });
+
+  if (override?.mode === "never") {
+    logger.info(`⏩ Skipping "${item.name}" – marked "never sync" by override`);
+    return {
+      objectId: item.objectId,
+      name: item.name,
+      status: "skipped_override" as const,
+      dryRun,
+    };
+  }
+
+  if (reviewStatus === "rejected" && override?.mode !== "pin") {
+    logger.info(`⏩ Skipping "${item.name}" – match was rejected in review`);
+    return {
+      objectId: item.objectId,
+      name: item.name,
+      status: "review_rejected" as const,
+      dryRun,
+    };
+  }
+
+  // Step 1 – Search BGG (or fetch the pinned thing directly)
+  const { match, bggStats, upcQuotaExhausted } = await step.run("search-bgg", async () => {
+    const { result: tracked, report: upcReport } = await trackUpcLookups(() => trackBggRequests(async (): Promise<BggMatch | null> => {
+      if (override?.mode === "pin") {
+        logger.info(`📌 "${item.name}" is pinned to BGG #${override.bggId} by override`);
 
-    // Step 1 – Search BGG
-    const match = await step.run("search-bgg", async () => {
-      logger.info(`🔍 Searching BGG for "${item.name}" (UPC: ${item.meta.upc ?? "none"})…`);
+        const detail = await fetchBggThing(override.bggId);
+        if (!detail?.imageUrl) {
+          logger.warn(`❌ Pinned BGG #${override.bggId} for "${item.name}" has no image`);
+          return null;
+        }
+
+        return applyUpcVersion({
+          detail,
+          searchName: item.name,
+          reason: `pinned by override${override.note ? ` (${override.note})` : ""}`,
+          confidence: 1,
+          candidate: null,
+          rejected: [],
+          expectedType: looksLikeExpansion(item.name) ? "boardgameexpansion" : "boardgame",
+        }, item.meta.upc);
+      }
+
+      logger.info(
+        `🔍 Searching BGG for "${item.name}" (UPC: ${item.meta.upc ?? "none"}, ` +
+          `year: ${item.meta.year ?? "none"}, publisher: ${item.meta.publisher ?? "none"})…`
+      );
 
       const result = await findBestMatch(item.name, {
         year: item.meta.year,
         publisher: item.meta.publisher,
         upc: item.meta.upc,
+        objectId: item.objectId,
+        bggId: item.meta.bggId,
       });
 
-      if (!result || !result.imageUrl) {
+      if (!result || !result.detail.imageUrl) {
         logger.warn(`❌ No BGG match found for "${item.name}"`);
         return null;
       }
 
+      const { detail } = result;
       logger.info(
-        `✅ Matched "${item.name}" → BGG #${result.bggId} "${result.name}" (${result.yearPublished ?? "??"})`
+        `✅ Matched "${item.name}" → BGG #${detail.bggId} "${detail.name}" (${detail.yearPublished ?? "??"}, ${detail.type}` +
+          `${detail.baseGames.length ? ` of "${detail.baseGames.map((b) => b.name).join(", ")}"` : ""}) ` +
+          `– confidence ${result.confidence} – ${result.reason}`
       );
       return result;
-    });
+    }));
+    const { result: match, stats: bggStats } = tracked;
 
-    if (!match) {
-      return {
-        objectId: item.objectId,
-        name: item.name,
-        status: "no_match" as const,
-      };
+    if (runId) {
+      await addRunBggStats(runId, bggStats);
+      await addRunUpcStats(runId, upcReport);
     }
+    logger.info(
+      `📊 BGG: ${bggStats.requests} requests, ${bggStats.rateLimited} × 429, ${bggStats.retries} retries, ` +
+        `${Math.round(bggStats.waitedMs)}ms waiting for budget`
+    );
+    if (upcReport.quotaExhausted.length > 0) {
+      logger.warn(`⚠️ UPC providers out of daily quota: ${upcReport.quotaExhausted.join(", ")}`);
+    }
+    return { match, bggStats, upcQuotaExhausted: upcReport.quotaExhausted };
+  });
 
-    // Step 2 – Upload image to Square (if needed)
-    let imageObjectId: string | undefined;
-    if (!item.hasImage && match.imageUrl) {
-      const uploadResult = await step.run("upload-image-to-square", async () => {
-        logger.info(`📸 Uploading image for "${item.name}" from BGG #${match.bggId}…`);
+  if (!match) {
+    return {
+      objectId: item.objectId,
+      name: item.name,
+      status: "no_match" as const,
+      dryRun,
+      bggStats,
+      upcQuotaExhausted,
+    };
+  }
 
-        const { imageObjectId } = await uploadImageToSquareItem(
-          item.objectId,
-          match.imageUrl!,
-          `${match.name} (BGG #${match.bggId})`
-        );
+  const { detail } = match;
+  const wantsImage = !!detail.imageUrl && wantsField(item, fields, "image");
+  const wantsDescription = !!detail.description && wantsField(item, fields, "description");
+  const matched = {
+    name: detail.name,
+    yearPublished: detail.yearPublished,
+    thumbnailUrl: detail.thumbnailUrl,
+    searchName: match.searchName,
+    reason: match.reason,
+  };
 
-        logger.info(`✅ Uploaded image ${imageObjectId} for "${item.name}"`);
-        return { imageObjectId };
-      });
-      imageObjectId = uploadResult.imageObjectId;
-    } else if (item.hasImage) {
-      logger.info(`⏩ Skipping image for "${item.name}" – already has one`);
-    }
+  // What an overwrite (or a dry run's proposal) replaces, for the run report.
+  // Real uploads report the image they replaced themselves.
+  let before: { imageUrl: string | null; descriptionHtml: string | null } = { imageUrl: null, descriptionHtml: null };
+  const replacesImage = dryRun && wantsImage && item.hasImage;
+  const replacesDescription = wantsDescription && item.hasDescription;
+  if ((dryRun || match.confidence >= threshold) && (replacesImage || replacesDescription)) {
+    before = await step.run("capture-before", async () => {
+      try {
+        return await getItemContent(item.objectId);
+      } catch (err) {
+        const report = permanentSquareError(err);
+        logger.warn(`⚠️ Could not read the current content of "${item.name}": ${report.message}`);
+        return { imageUrl: null, descriptionHtml: null };
+      }
+    });
+  }
 
-    // Step 3 – Update description on Square (if needed)
-    let descriptionUpdated = false;
-    if (!item.hasDescription && match.description) {
-      await step.run("update-description", async () => {
-        logger.info(`📝 Updating description for "${item.name}" from BGG #${match.bggId}…`);
+  // Dry run – report what would have been written, touch nothing on Square
+  if (dryRun) {
+    const proposal: DryRunProposal = {
+      bggId: detail.bggId,
+      name: detail.name,
+      yearPublished: detail.yearPublished,
+      type: detail.type,
+      expectedType: match.expectedType,
+      baseGames: detail.baseGames,
+      versionName: match.version?.name ?? null,
+      imageUrl: detail.imageUrl,
+      descriptionLength: detail.description?.length ?? 0,
+      searchName: match.searchName,
+      reason: match.reason,
+      confidence: match.confidence,
+      wouldNeedReview: match.confidence < threshold,
+      candidate: match.candidate,
+      rejected: match.rejected,
+      fields,
+      imagePolicy,
+      wouldUploadImage: wantsImage,
+      wouldUpdateDescription: wantsDescription,
+      wouldReplaceDescription: wantsDescription && item.hasDescription,
+    };
+
+    logger.info(`🧪 [dry run] "${item.name}" → ${JSON.stringify(proposal)}`);
+
+    return {
+      objectId: item.objectId,
+      name: item.name,
+      status: "dry_run" as const,
+      dryRun,
+      bggStats,
+      upcQuotaExhausted,
+      bggId: detail.bggId,
+      confidence: match.confidence,
+      matched,
+      imageBefore: before.imageUrl ?? undefined,
+      imageAfter: wantsImage ? detail.imageUrl ?? undefined : undefined,
+      descriptionBefore: wantsDescription ? before.descriptionHtml ?? undefined : undefined,
+      descriptionAfter: wantsDescription ? detail.description ?? undefined : undefined,
+      descriptionReplaced: proposal.wouldReplaceDescription,
+      proposal,
+    };
+  }
 
-        await updateItemDescription(item.objectId, match.description!);
+  // Low confidence – park for human review instead of writing to Square
+  if (match.confidence < threshold) {
+    await step.run("park-for-review", async () => {
+      logger.warn(
+        `🟡 Low-confidence match for "${item.name}" (${match.confidence} < ${threshold}) – parking for review`
+      );
 
-        logger.info(`✅ Description updated for "${item.name}"`);
+      await saveReview({
+        objectId: item.objectId,
+        item,
+        proposed: {
+          bggId: detail.bggId,
+          name: detail.name,
+          yearPublished: detail.yearPublished,
+          imageUrl: detail.imageUrl,
+          thumbnailUrl: detail.thumbnailUrl,
+        },
+        confidence: match.confidence,
+        reason: match.reason,
+        searchName: match.searchName,
+        candidates: [...(match.candidate ? [match.candidate] : []), ...match.rejected],
+        fields,
+        imagePolicy,
       });
-      descriptionUpdated = true;
-    } else if (item.hasDescription) {
-      logger.info(`⏩ Skipping description for "${item.name}" – already has one`);
-    }
+    });
 
     return {
       objectId: item.objectId,
       name: item.name,
-      status: "synced" as const,
-      bggId: match.bggId,
+      status: "pending_review" as const,
+      dryRun,
+      bggStats,
+      upcQuotaExhausted,
+      bggId: detail.bggId,
+      confidence: match.confidence,
+      matched,
+    };
+  }
+
+  // Permanent Square failures end the item here with the classified error
+  const squareFailed = (failedStep: string, squareError: SquareErrorReport) => {
+    logger.error(`❌ ${squareError.message} – giving up on "${item.name}" at ${failedStep}`);
+    return {
+      objectId: item.objectId,
+      name: item.name,
+      status: "square_error" as const,
+      dryRun,
+      bggStats,
+      upcQuotaExhausted,
+      bggId: detail.bggId,
+      confidence: match.confidence,
+      matched,
       imageObjectId,
-      descriptionUpdated,
+      failedStep,
+      squareError,
     };
+  };
+
+  // Step 2 – Upload image to Square (if needed)
+  let imageObjectId: string | undefined;
+  let imageRejected: string | undefined;
+  let imageBefore: string | undefined;
+  if (wantsImage) {
+    const uploadResult = await step.run("upload-image-to-square", async () => {
+      logger.info(`📸 Uploading image for "${item.name}" from BGG #${detail.bggId}…`);
+
+      try {
+        const { imageObjectId, reused, previousImageUrl } = await uploadImageToSquareItem(
+          item.objectId,
+          detail.imageUrl!,
+          `${detail.name} (BGG #${detail.bggId})`,
+          { bggId: detail.bggId, runId }
+        );
+
+        logger.info(
+          reused
+            ? `♻️ "${item.name}" already has image ${imageObjectId} from this BGG source – not uploading again`
+            : `✅ Uploaded image ${imageObjectId} for "${item.name}"`
+        );
+        return { imageObjectId, previousImageUrl, imageRejected: null, squareError: null };
+      } catch (err) {
+        // Unusable image (tiny, placeholder, undecodable) – retrying won't help
+        if (err instanceof ImageRejectedError) {
+          logger.warn(`🚫 Not uploading image for "${item.name}": ${err.message}`);
+          return { imageObjectId: null, previousImageUrl: null, imageRejected: err.message, squareError: null };
+        }
+        return {
+          imageObjectId: null,
+          previousImageUrl: null,
+          imageRejected: null,
+          squareError: permanentSquareError(err),
+        };
+      }
+    });
+    if (uploadResult.squareError) return squareFailed("upload-image-to-square", uploadResult.squareError);
+    imageObjectId = uploadResult.imageObjectId ?? undefined;
+    imageRejected = uploadResult.imageRejected ?? undefined;
+    imageBefore = uploadResult.previousImageUrl ?? undefined;
+  } else if (!fields.image) {
+    logger.info(`⏩ Skipping image for "${item.name}" – not one of this run's fields`);
+  } else if (item.hasImage) {
+    logger.info(`⏩ Skipping image for "${item.name}" – already has one (fill-if-empty)`);
   }
-);
+
+  // Step 2b – Place the new image and clean up the ones it replaces
+  if (imageObjectId && imagePolicy !== "skip") {
+    const { squareError } = await step.run("apply-image-policy", async () => {
+      try {
+        const { imageIds, deleted, detached } = await applyImagePolicy(item.objectId, imageObjectId!, imagePolicy);
+        logger.info(
+          `🖼️ Image policy "${imagePolicy}" for "${item.name}": ${imageIds.length} image(s), ` +
+            `${deleted.length} old BGG image(s) deleted, ${detached.length} detached`
+        );
+        return { squareError: null };
+      } catch (err) {
+        return { squareError: permanentSquareError(err) };
+      }
+    });
+    if (squareError) return squareFailed("apply-image-policy", squareError);
+  }
+
+  // Step 3 – Update description on Square (if needed)
+  let descriptionUpdated = false;
+  let descriptionQueued = false;
+  if (wantsDescription && batchDescriptionsEnabled()) {
+    // Written in bulk by the writeDescriptions aggregator
+    await step.sendEvent("queue-description", {
+      name: "sync/description.write",
+      data: {
+        objectId: item.objectId,
+        name: item.name,
+        descriptionHtml: detail.description,
+        bggId: detail.bggId,
+        runId,
+      },
+    });
+    logger.info(`📝 Queued description for "${item.name}" from BGG #${detail.bggId}`);
+    descriptionQueued = true;
+  } else if (wantsDescription) {
+    const { squareError } = await step.run("update-description", async () => {
+      logger.info(`📝 Updating description for "${item.name}" from BGG #${detail.bggId}…`);
+
+      try {
+        await updateItemDescription(item.objectId, detail.description!, { bggId: detail.bggId, runId });
+      } catch (err) {
+        return { squareError: permanentSquareError(err) };
+      }
+
+      logger.info(`✅ Description updated for "${item.name}"`);
+      return { squareError: null };
+    });
+    if (squareError) return squareFailed("update-description", squareError);
+    descriptionUpdated = true;
+  } else if (!fields.description) {
+    logger.info(`⏩ Skipping description for "${item.name}" – not one of this run's fields`);
+  } else if (item.hasDescription) {
+    logger.info(`⏩ Skipping description for "${item.name}" – already has one (fill-if-empty)`);
+  }
+
+  // Step 4 – Record the matched BGG id on the Square item
+  if (item.meta.bggId !== detail.bggId) {
+    const { squareError } = await step.run("record-bgg-id", async () => {
+      try {
+        await setItemBggId(item.objectId, detail.bggId);
+      } catch (err) {
+        return { squareError: permanentSquareError(err) };
+      }
+      logger.info(`🏷️ Recorded bgg_id ${detail.bggId} on "${item.name}"`);
+      return { squareError: null };
+    });
+    if (squareError) return squareFailed("record-bgg-id", squareError);
+  }
+
+  return {
+    objectId: item.objectId,
+    name: item.name,
+    status: "synced" as const,
+    dryRun,
+    bggStats,
+    upcQuotaExhausted,
+    bggId: detail.bggId,
+    confidence: match.confidence,
+    matched,
+    imageObjectId,
+    imageRejected,
+    imageBefore,
+    imageAfter: imageObjectId ? detail.imageUrl ?? undefined : undefined,
+    descriptionUpdated,
+    descriptionQueued,
+    descriptionBefore: descriptionUpdated || descriptionQueued ? before.descriptionHtml ?? undefined : undefined,
+    descriptionAfter: descriptionUpdated || descriptionQueued ? detail.description ?? undefined : undefined,
+    descriptionReplaced: (descriptionUpdated || descriptionQueued) && item.hasDescription,
+  };
+}
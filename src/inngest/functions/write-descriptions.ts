@@ -0,0 +1,86 @@
+/**
+ * Inngest function – "Write Descriptions (batched)"
+ *
+ * Children don't write descriptions themselves (two Square calls per item);
+ * they emit `sync/description.write` and this aggregator collects the
+ * events and writes them with batchRetrieve / batchUpsert in chunks.
+ *
+ * Env vars:
+ *   SQUARE_BATCH_DESCRIPTIONS  – "false" to write descriptions from each child instead (default: on)
+ *   DESCRIPTION_BATCH_SIZE     – max events collected per invocation (default: 100)
+ *   DESCRIPTION_BATCH_TIMEOUT  – how long to wait for a batch to fill, e.g. "30s" (default: "30s")
+ */
+
+import { inngest } from "../client";
+import { batchUpdateItemDescriptions, DescriptionUpdate } from "../../lib/square";
+import { recordDescriptionResult } from "../../lib/run-store";
+
+// ---------------------------------------------------------------------------
+// Event schema
+// ---------------------------------------------------------------------------
+
+export type DescriptionWriteEvent = {
+  name: "sync/description.write";
+  data: DescriptionUpdate & {
+    /** Square item name, for logs */
+    name: string;
+  };
+};
+
+/** Whether children should queue descriptions for this aggregator. */
+export function batchDescriptionsEnabled(): boolean {
+  return process.env.SQUARE_BATCH_DESCRIPTIONS !== "false";
+}
+
+// ---------------------------------------------------------------------------
+// Aggregator
+// ---------------------------------------------------------------------------
+
+export const writeDescriptions = inngest.createFunction(
+  {
+    id: "write-descriptions",
+    name: "Write Descriptions (batched → Square)",
+    retries: 2,
+    batchEvents: {
+      maxSize: Number(process.env.DESCRIPTION_BATCH_SIZE) || 100,
+      timeout: (process.env.DESCRIPTION_BATCH_TIMEOUT || "30s") as `${number}s`,
+    },
+  },
+  { event: "sync/description.write" },
+  async ({ events, step, logger }) => {
+    const updates = events.map((e) => e.data as DescriptionWriteEvent["data"]);
+    const names = new Map(updates.map((u) => [u.objectId, u.name]));
+    const runIds = new Map(updates.map((u) => [u.objectId, u.runId]));
+
+    const results = await step.run("batch-upsert-descriptions", async () => {
+      logger.info(`📝 Writing ${updates.length} queued description(s)…`);
+      return batchUpdateItemDescriptions(
+        updates.map(({ objectId, descriptionHtml, bggId, runId }) => ({ objectId, descriptionHtml, bggId, runId }))
+      );
+    });
+
+    // Attach each write's result to the run the item belongs to
+    await step.run("record-run-results", async () => {
+      for (const { objectId, status, error } of results) {
+        const runId = runIds.get(objectId);
+        if (runId) await recordDescriptionResult(runId, objectId, { status, error });
+      }
+    });
+
+    const count = (status: string) => results.filter((r) => r.status === status).length;
+    for (const r of results) {
+      if (r.error) logger.warn(`❌ Description for "${names.get(r.objectId)}" not written: ${r.error.message}`);
+    }
+    logger.info(
+      `✅ Descriptions: ${count("updated")} updated, ${count("unchanged")} unchanged, ${count("failed")} failed`
+    );
+
+    return {
+      received: events.length,
+      updated: count("updated"),
+      unchanged: count("unchanged"),
+      failed: count("failed"),
+      results,
+    };
+  }
+);
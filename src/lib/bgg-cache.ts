@@ -0,0 +1,93 @@
+/**
+ * Persistent cache for BGG lookups, backed by the shared key/value store.
+ *
+ * Keys:
+ *   bgg:v3:search:<type>:<query>   → BggSearchResult[]   (TTL)
+ *   bgg:v3:thing:<bggId>           → BggThingDetail      (TTL)
+ *   bgg:match:<square objectId>    → MatchDecision       (no TTL; confident or reviewer-approved
+ *                                                          matches only, cleared on reject / override delete)
+ *
+ * Env vars:
+ *   BGG_CACHE_TTL_DAYS – lifetime of cached search / thing responses (default: 30)
+ */
+
+import { getStore } from "./store";
+import type { BggSearchResult, BggThingDetail, BggThingType } from "./bgg";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The matcher's final objectId → bggId decision for a Square item. */
+export interface MatchDecision {
+  bggId: number;
+  searchName: string;
+  reason: string;
+  /** Confidence at decision time (1 for human-approved decisions) */
+  confidence: number;
+  /** ISO timestamp */
+  decidedAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const DEFAULT_TTL_DAYS = 30;
+
+/** Bump when the shape of cached BGG responses changes, to ignore stale entries. */
+const RESPONSE_CACHE_VERSION = "v3";
+
+const searchKey = (query: string, type: BggThingType) =>
+  `bgg:${RESPONSE_CACHE_VERSION}:search:${type}:${normalizeQuery(query)}`;
+const thingKey = (bggId: number) => `bgg:${RESPONSE_CACHE_VERSION}:thing:${bggId}`;
+
+function ttlSeconds(): number {
+  const days = Number(process.env.BGG_CACHE_TTL_DAYS);
+  return (Number.isFinite(days) && days > 0 ? days : DEFAULT_TTL_DAYS) * 24 * 60 * 60;
+}
+
+/** Normalize a search query so trivially different spellings share a cache entry. */
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// ---------------------------------------------------------------------------
+// Search results
+// ---------------------------------------------------------------------------
+
+export function getCachedSearch(query: string, type: BggThingType): Promise<BggSearchResult[] | null> {
+  return getStore().get<BggSearchResult[]>(searchKey(query, type));
+}
+
+export function setCachedSearch(query: string, type: BggThingType, results: BggSearchResult[]): Promise<void> {
+  return getStore().set(searchKey(query, type), results, { ttlSeconds: ttlSeconds() });
+}
+
+// ---------------------------------------------------------------------------
+// Thing details
+// ---------------------------------------------------------------------------
+
+export function getCachedThing(bggId: number): Promise<BggThingDetail | null> {
+  return getStore().get<BggThingDetail>(thingKey(bggId));
+}
+
+export function setCachedThing(detail: BggThingDetail): Promise<void> {
+  return getStore().set(thingKey(detail.bggId), detail, { ttlSeconds: ttlSeconds() });
+}
+
+// ---------------------------------------------------------------------------
+// objectId → bggId decisions
+// ---------------------------------------------------------------------------
+
+export function getMatchDecision(objectId: string): Promise<MatchDecision | null> {
+  return getStore().get<MatchDecision>(`bgg:match:${objectId}`);
+}
+
+export function setMatchDecision(objectId: string, decision: MatchDecision): Promise<void> {
+  return getStore().set(`bgg:match:${objectId}`, decision);
+}
+
+export function clearMatchDecision(objectId: string): Promise<void> {
+  return getStore().delete(`bgg:match:${objectId}`);
+}
@@ -0,0 +1,153 @@
+/**
+ * Shared BGG request budget.
+ *
+ * Every BGG request, from every Inngest invocation on every instance, takes
+ * a token from one bucket kept in the shared store. The bucket holds
+ * BGG_RATE_LIMIT_REQUESTS tokens and is refilled every
+ * BGG_RATE_LIMIT_WINDOW_MS; when it is empty, callers wait for the refill.
+ * A 429's `Retry-After` pauses all callers until it has passed.
+ *
+ * Request / 429 / retry counts are tracked per async context (see
+ * `trackBggRequests`) and can be added to per-run totals in the store.
+ *
+ * Keys:
+ *   bgg:rl:window:<n>        → tokens taken in window n (TTL)
+ *   bgg:rl:blocked-until     → epoch ms until which BGG asked us to back off (TTL)
+ *   bgg:stats:<runId>:<stat> → per-run counters (kept as long as the run history, RUN_HISTORY_DAYS)
+ *
+ * Env vars:
+ *   BGG_RATE_LIMIT_REQUESTS  – bucket size: requests allowed per window (default: 2)
+ *   BGG_RATE_LIMIT_WINDOW_MS – refill interval in ms (default: 2000)
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { runRetention } from "./run-store";
+import { getStore } from "./store";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface BggRequestStats {
+  requests: number;
+  rateLimited: number;
+  retries: number;
+  /** Total ms spent waiting for the shared budget or a Retry-After */
+  waitedMs: number;
+}
+
+const emptyStats = (): BggRequestStats => ({ requests: 0, rateLimited: 0, retries: 0, waitedMs: 0 });
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+function positiveEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function getBucketConfig() {
+  return {
+    capacity: positiveEnv("BGG_RATE_LIMIT_REQUESTS", 2),
+    windowMs: positiveEnv("BGG_RATE_LIMIT_WINDOW_MS", 2_000),
+  };
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ---------------------------------------------------------------------------
+// Stats (per async context)
+// ---------------------------------------------------------------------------
+
+const statsContext = new AsyncLocalStorage<BggRequestStats>();
+
+function bump(stat: keyof BggRequestStats, amount = 1) {
+  const stats = statsContext.getStore();
+  if (stats) stats[stat] += amount;
+}
+
+export const recordBggRequest = () => bump("requests");
+export const recordBggRateLimited = () => bump("rateLimited");
+export const recordBggRetry = () => bump("retries");
+
+/**
+ * Run `fn` and return its result together with the BGG request counts it
+ * caused. Concurrent calls in the same process are counted separately.
+ */
+export async function trackBggRequests<T>(fn: () => Promise<T>): Promise<{ result: T; stats: BggRequestStats }> {
+  const stats = emptyStats();
+  const result = await statsContext.run(stats, fn);
+  return { result, stats };
+}
+
+/** Add one invocation's counts to the run's totals in the store. */
+export async function addRunBggStats(runId: string, stats: BggRequestStats): Promise<void> {
+  const store = getStore();
+  const ttl = runRetention();
+  for (const [stat, value] of Object.entries(stats)) {
+    if (value > 0) await store.incr(`bgg:stats:${runId}:${stat}`, value, ttl);
+  }
+}
+
+export async function getRunBggStats(runId: string): Promise<BggRequestStats> {
+  const store = getStore();
+  const stats = emptyStats();
+  for (const stat of Object.keys(stats) as (keyof BggRequestStats)[]) {
+    stats[stat] = (await store.get<number>(`bgg:stats:${runId}:${stat}`)) ?? 0;
+  }
+  return stats;
+}
+
+// ---------------------------------------------------------------------------
+// Budget
+// ---------------------------------------------------------------------------
+
+/**
+ * Wait until the shared budget allows one more BGG request, then take it.
+ */
+export async function acquireBggToken(): Promise<void> {
+  const store = getStore();
+  const { capacity, windowMs } = getBucketConfig();
+  const ttlSeconds = Math.ceil((windowMs * 2) / 1_000);
+
+  for (;;) {
+    // Honor a Retry-After set by any invocation
+    const blockedUntil = await store.get<number>("bgg:rl:blocked-until");
+    if (blockedUntil && blockedUntil > Date.now()) {
+      const wait = blockedUntil - Date.now() + Math.random() * 250;
+      bump("waitedMs", wait);
+      await sleep(wait);
+      continue;
+    }
+
+    const now = Date.now();
+    const window = Math.floor(now / windowMs);
+    const taken = await store.incr(`bgg:rl:window:${window}`, 1, { ttlSeconds });
+    if (taken <= capacity) return;
+
+    // Bucket empty – wait for the next refill (jittered so callers spread out)
+    const wait = (window + 1) * windowMs - now + Math.random() * windowMs * 0.25;
+    bump("waitedMs", wait);
+    await sleep(wait);
+  }
+}
+
+/**
+ * Parse a `Retry-After` header (seconds or HTTP date) and pause every
+ * caller until then. Returns the delay in ms, or null if absent/invalid.
+ */
+export async function applyRetryAfter(header: string | null): Promise<number | null> {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  const delayMs = Number.isFinite(seconds) ? seconds * 1_000 : Date.parse(header) - Date.now();
+  if (!Number.isFinite(delayMs) || delayMs <= 0) return null;
+
+  await getStore().set("bgg:rl:blocked-until", Date.now() + delayMs, {
+    ttlSeconds: Math.ceil(delayMs / 1_000) + 1,
+  });
+  return delayMs;
+}
@@ -2,35 +2,114 @@
  * BoardGameGeek (BGG) XML API2 client
  *
  * Endpoints used:
- *   Search:  https://boardgamegeek.com/xmlapi2/search?query=NAME&type=boardgame
- *   Thing:   https://boardgamegeek.com/xmlapi2/thing?id=ID
+ *   Search:  https://boardgamegeek.com/xmlapi2/search?query=NAME&type=boardgame|boardgameexpansion
+ *   Thing:   https://boardgamegeek.com/xmlapi2/thing?id=ID[,ID…]&versions=1
  *
  * Rate-limiting: BGG returns 429 when you hit too many requests.
- * We implement exponential back-off with jitter.
+ * Every request takes a token from a budget shared by all invocations
+ * (see bgg-rate-limit.ts); 429s honor Retry-After, falling back to
+ * exponential back-off with jitter.
  */
 
 import { XMLParser } from "fast-xml-parser";
 import { lookupUpc } from "./upc";
+import { normalizeGtin } from "./gtin";
+import {
+  acquireBggToken,
+  applyRetryAfter,
+  recordBggRateLimited,
+  recordBggRequest,
+  recordBggRetry,
+} from "./bgg-rate-limit";
+import { looksLikeExpansion, scoreName, NameScoreBreakdown } from "./name-match";
+import { isHintSourceEnabled } from "./item-hints";
+import {
+  getCachedSearch,
+  setCachedSearch,
+  getCachedThing,
+  setCachedThing,
+  getMatchDecision,
+  setMatchDecision,
+} from "./bgg-cache";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+export type BggThingType = "boardgame" | "boardgameexpansion";
+
 export interface BggSearchResult {
   bggId: number;
   name: string;
   yearPublished: number | null;
+  type: BggThingType;
 }
 
 export interface BggThingDetail {
   bggId: number;
   name: string;
+  /** "boardgameexpansion" for expansions */
+  type: BggThingType;
+  /** For expansions: the base game(s) this expands (inbound expansion links) */
+  baseGames: { bggId: number; name: string }[];
   yearPublished: number | null;
   imageUrl: string | null;
   thumbnailUrl: string | null;
   publishers: string[];
   /** HTML-safe description from BGG (decoded from XML entities). */
   description: string | null;
+  /** Published versions (from `versions=1`) */
+  versions: BggVersion[];
+}
+
+/** One published version (edition / printing / localization) of a BGG thing. */
+export interface BggVersion {
+  versionId: number;
+  name: string;
+  yearPublished: number | null;
+  publishers: string[];
+  languages: string[];
+  /** Publisher product code – often the UPC/EAN for retail versions */
+  productCode: string | null;
+  imageUrl: string | null;
+  thumbnailUrl: string | null;
+}
+
+/** A BGG search result with its score against the product name. */
+export interface ScoredCandidate extends BggSearchResult {
+  /** Total score: name similarity (0–10) + year match (8) */
+  score: number;
+  /** Short labels for what contributed to the score */
+  signals: string[];
+  /** Per-component name similarity, for explaining why a candidate won */
+  nameScore: NameScoreBreakdown;
+}
+
+/** A candidate the matcher considered but did not pick. */
+export interface RejectedCandidate extends ScoredCandidate {
+  rejectedBecause: string;
+}
+
+/** Result of `findBestMatch`: the chosen thing plus why it was chosen. */
+export interface BggMatch {
+  detail: BggThingDetail;
+  /** The query string that produced this match (UPC-resolved title or Square name). */
+  searchName: string;
+  /** Human-readable explanation of why this candidate won. */
+  reason: string;
+  /** How sure the matcher is, 0–1. Compare against the review threshold. */
+  confidence: number;
+  /** The winner's score breakdown. Null for cached decisions. */
+  candidate: ScoredCandidate | null;
+  /** Other top candidates and why each lost. Empty for cached decisions. */
+  rejected: RejectedCandidate[];
+  /** Whether the Square item looked like an expansion SKU */
+  expectedType: BggThingType;
+  /**
+   * The version whose product code matched the item's UPC, if any. When set,
+   * `detail.imageUrl` / `yearPublished` come from this version.
+   */
+  version?: BggVersion;
 }
 
 // ---------------------------------------------------------------------------
@@ -78,16 +157,16 @@ function getBggHeaders(): HeadersInit {
 }
 
 /**
- * Fetch a URL with exponential back-off on 429 / 5xx responses.
- * Adds a small base delay between every request to be kind to BGG.
+ * Fetch a URL with back-off on 429 / 5xx responses.
+ * Every attempt first waits for a token from the shared BGG budget.
  */
 async function fetchWithBackoff(
   url: string,
   attempt = 0
 ): Promise<string> {
-  // Small courtesy delay on every call (even the first)
-  await sleep(800 + Math.random() * 400);
+  await acquireBggToken();
 
+  recordBggRequest();
   const res = await fetch(url, { headers: getBggHeaders() });
 
   if (res.ok) {
@@ -97,11 +176,21 @@ async function fetchWithBackoff(
   // Retry on rate-limit or server errors; do NOT retry 401/403
   // since those indicate a bad/missing token that won't self-resolve.
   if ((res.status === 429 || res.status >= 500) && attempt < MAX_RETRIES) {
-    const delay = BASE_DELAY_MS * 2 ** attempt + Math.random() * 1_000;
+    // On 429, Retry-After (if sent) pauses every invocation via the shared
+    // store; the next acquireBggToken() waits it out. Otherwise back off.
+    let delay = 0;
+    if (res.status === 429) {
+      recordBggRateLimited();
+      delay = (await applyRetryAfter(res.headers.get("Retry-After"))) ?? 0;
+    }
+    const backoff = delay > 0 ? 0 : BASE_DELAY_MS * 2 ** attempt + Math.random() * 1_000;
+
     console.warn(
-      `[BGG] ${res.status} on ${url} – retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${MAX_RETRIES})`
+      `[BGG] ${res.status} on ${url} – retrying in ${Math.round(delay || backoff)}ms` +
+        `${delay > 0 ? " (Retry-After)" : ""} (attempt ${attempt + 1}/${MAX_RETRIES})`
     );
-    await sleep(delay);
+    recordBggRetry();
+    await sleep(backoff);
     return fetchWithBackoff(url, attempt + 1);
   }
 
@@ -124,12 +213,15 @@ function sleep(ms: number) {
 // ---------------------------------------------------------------------------
 
 /**
- * Search BGG for board games matching `query`.
+ * Search BGG for board games (or expansions) matching `query`.
  * Returns an array of lightweight search results.
  */
-export async function searchBgg(query: string): Promise<BggSearchResult[]> {
+export async function searchBgg(
+  query: string,
+  type: BggThingType = "boardgame"
+): Promise<BggSearchResult[]> {
   const encoded = encodeURIComponent(query.trim());
-  const url = `https://boardgamegeek.com/xmlapi2/search?query=${encoded}&type=boardgame`;
+  const url = `https://boardgamegeek.com/xmlapi2/search?query=${encoded}&type=${type}`;
   const xml = await fetchWithBackoff(url);
   const data = parser.parse(xml);
 
@@ -147,6 +239,7 @@ export async function searchBgg(query: string): Promise<BggSearchResult[]> {
       yearPublished: item.yearpublished?.["@_value"]
         ? Number(item.yearpublished["@_value"])
         : null,
+      type: item["@_type"] === "boardgameexpansion" ? "boardgameexpansion" : "boardgame",
     } satisfies BggSearchResult;
   });
 }
@@ -155,17 +248,42 @@ export async function searchBgg(query: string): Promise<BggSearchResult[]> {
 // Thing detail (image + publishers)
 // ---------------------------------------------------------------------------
 
+/** BGG's /thing endpoint accepts at most this many ids per request. */
+const MAX_THING_IDS_PER_REQUEST = 20;
+
 /**
  * Fetch full details for a single BGG thing (board game).
  */
 export async function fetchBggThing(bggId: number): Promise<BggThingDetail | null> {
-  const url = `https://boardgamegeek.com/xmlapi2/thing?id=${bggId}`;
-  const xml = await fetchWithBackoff(url);
-  const data = parser.parse(xml);
+  const [detail] = await fetchBggThings([bggId]);
+  return detail ?? null;
+}
+
+/**
+ * Fetch full details for several BGG things using comma-separated id lists
+ * (one request per 20 ids). Ids BGG doesn't return are simply omitted.
+ */
+export async function fetchBggThings(bggIds: number[]): Promise<BggThingDetail[]> {
+  const unique = [...new Set(bggIds)];
+  const details: BggThingDetail[] = [];
+
+  for (let i = 0; i < unique.length; i += MAX_THING_IDS_PER_REQUEST) {
+    const chunk = unique.slice(i, i + MAX_THING_IDS_PER_REQUEST);
+    const url = `https://boardgamegeek.com/xmlapi2/thing?id=${chunk.join(",")}&versions=1`;
+    const xml = await fetchWithBackoff(url);
+    const data = parser.parse(xml);
+
+    const items: any[] = data?.items?.item ?? [];
+    for (const item of items) {
+      details.push(parseThingItem(item));
+    }
+  }
 
-  const item = data?.items?.item?.[0] ?? data?.items?.item;
-  if (!item) return null;
+  return details;
+}
 
+/** Convert one parsed `<item>` from a /thing response into a BggThingDetail. */
+function parseThingItem(item: any): BggThingDetail {
   const names: any[] = Array.isArray(item.name) ? item.name : [item.name];
   const primary = names.find((n: any) => n?.["@_type"] === "primary") ?? names[0];
 
@@ -174,6 +292,11 @@ export async function fetchBggThing(bggId: number): Promise<BggThingDetail | nul
     .filter((l: any) => l["@_type"] === "boardgamepublisher")
     .map((l: any) => l["@_value"] as string);
 
+  // On an expansion, inbound "boardgameexpansion" links point at its base game(s)
+  const baseGames = links
+    .filter((l: any) => l["@_type"] === "boardgameexpansion" && l["@_inbound"] === "true")
+    .map((l: any) => ({ bggId: Number(l["@_id"]), name: l["@_value"] as string }));
+
   // BGG descriptions are XML-encoded strings containing &#10; for newlines
   // and HTML entities. Decode them into clean HTML paragraphs.
   const rawDesc: string | undefined = item.description;
@@ -183,8 +306,10 @@ export async function fetchBggThing(bggId: number): Promise<BggThingDetail | nul
   }
 
   return {
-    bggId,
+    bggId: Number(item["@_id"]),
     name: primary?.["@_value"] ?? "",
+    type: item["@_type"] === "boardgameexpansion" ? "boardgameexpansion" : "boardgame",
+    baseGames,
     yearPublished: item.yearpublished?.["@_value"]
       ? Number(item.yearpublished["@_value"])
       : null,
@@ -192,36 +317,162 @@ export async function fetchBggThing(bggId: number): Promise<BggThingDetail | nul
     thumbnailUrl: item.thumbnail ?? null,
     publishers,
     description,
+    versions: (item.versions?.item ?? []).map(parseVersionItem),
   };
 }
 
+/** Convert one `<versions><item>` into a BggVersion. */
+function parseVersionItem(item: any): BggVersion {
+  const names: any[] = Array.isArray(item.name) ? item.name : [item.name];
+  const primary = names.find((n: any) => n?.["@_type"] === "primary") ?? names[0];
+  const links: any[] = Array.isArray(item.link) ? item.link : item.link ? [item.link] : [];
+  const linkValues = (type: string) =>
+    links.filter((l: any) => l["@_type"] === type).map((l: any) => l["@_value"] as string);
+
+  const year = Number(item.yearpublished?.["@_value"]);
+  const productCode = String(item.productcode?.["@_value"] ?? "").trim();
+
+  return {
+    versionId: Number(item["@_id"]),
+    name: primary?.["@_value"] ?? "",
+    yearPublished: year > 0 ? year : null,
+    publishers: linkValues("boardgamepublisher"),
+    languages: linkValues("language"),
+    productCode: productCode || null,
+    imageUrl: item.image ?? null,
+    thumbnailUrl: item.thumbnail ?? null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Cached lookups (used by the matcher)
+// ---------------------------------------------------------------------------
+
+/**
+ * `searchBgg`, but served from the persistent cache when possible.
+ * Empty result sets are cached too, so known misses don't re-hit BGG.
+ */
+async function searchBggCached(query: string, type: BggThingType): Promise<BggSearchResult[]> {
+  const cached = await getCachedSearch(query, type);
+  if (cached) return cached;
+
+  const results = await searchBgg(query, type);
+  await setCachedSearch(query, type, results);
+  return results;
+}
+
+/** `fetchBggThing`, but served from the persistent cache when possible. */
+async function fetchBggThingCached(bggId: number): Promise<BggThingDetail | null> {
+  const details = await fetchBggThingsCached([bggId]);
+  return details.get(bggId) ?? null;
+}
+
+/**
+ * `fetchBggThings`, but served from the persistent cache when possible.
+ * Only the ids missing from the cache are requested, in a single batch.
+ */
+async function fetchBggThingsCached(bggIds: number[]): Promise<Map<number, BggThingDetail>> {
+  const found = new Map<number, BggThingDetail>();
+  const missing: number[] = [];
+
+  for (const id of bggIds) {
+    const cached = await getCachedThing(id);
+    if (cached) found.set(id, cached);
+    else missing.push(id);
+  }
+
+  if (missing.length > 0) {
+    for (const detail of await fetchBggThings(missing)) {
+      await setCachedThing(detail);
+      found.set(detail.bggId, detail);
+    }
+  }
+
+  return found;
+}
+
 // ---------------------------------------------------------------------------
 // Smart matcher
 // ---------------------------------------------------------------------------
 
 /**
  * Given a product name (and optional year / publisher from Square metadata),
- * search BGG and return the best-matching thing detail, or null.
+ * search BGG and return the best match (with the reason it was chosen), or null.
  *
  * Strategy:
+ *   0. If the Square item already carries a `bggId` custom attribute, treat
+ *      it as authoritative. Otherwise, if an `objectId` is provided and a
+ *      previous run already decided on a BGG id for it, reuse that decision.
  *   1. If a UPC is provided, look it up to get the full product title
  *      and search BGG with that instead of the (possibly abbreviated) Square name.
- *   2. Score results by name similarity and year match.
+ *   2. Score results by fuzzy name similarity (see name-match.ts) and year match.
  *   3. Verify publisher if a hint is available.
- *   4. If UPC-based search fails, fall back to the Square product name.
+ *   4. If UPC-based search fails (or is less confident), fall back to the
+ *      Square product name.
+ *
+ * Expansion SKUs ("Wingspan: European Expansion") are searched as
+ * `boardgameexpansion`, and base games are never accepted for them.
  */
 export async function findBestMatch(
   productName: string,
-  hints?: { year?: number; publisher?: string; upc?: string }
-): Promise<BggThingDetail | null> {
+  hints?: { year?: number; publisher?: string; upc?: string; objectId?: string; bggId?: number }
+): Promise<BggMatch | null> {
+  let expectedType: BggThingType = looksLikeExpansion(productName) ? "boardgameexpansion" : "boardgame";
+
+  // -------------------------------------------------------------------
+  // 0. Reuse the id recorded on the Square item, or a previous decision
+  // -------------------------------------------------------------------
+  if (hints?.bggId) {
+    const detail = await fetchBggThingCached(hints.bggId);
+    if (detail?.imageUrl) {
+      console.log(`[BGG] Using bgg_id attribute on Square item → BGG #${hints.bggId}`);
+      return applyUpcVersion({
+        detail,
+        searchName: productName,
+        reason: "bgg_id custom attribute on the Square item",
+        confidence: 1,
+        candidate: null,
+        rejected: [],
+        expectedType,
+      }, hints.upc);
+    }
+    console.warn(`[BGG] bgg_id attribute points at BGG #${hints.bggId}, which has no image – searching instead`);
+  }
+
+  if (hints?.objectId) {
+    const decision = await getMatchDecision(hints.objectId);
+    if (decision) {
+      const detail = await fetchBggThingCached(decision.bggId);
+      // Decisions below today's threshold predate the scorer / hints that would now apply
+      const problem =
+        decision.confidence < getConfidenceThreshold()
+          ? `confidence ${decision.confidence} is below the threshold`
+          : decisionProblem(decision.bggId, detail, productName, expectedType);
+      if (detail && !problem) {
+        console.log(`[BGG] Reusing cached decision for ${hints.objectId} → BGG #${decision.bggId}`);
+        return applyUpcVersion({
+          detail,
+          searchName: decision.searchName,
+          reason: `cached decision from ${decision.decidedAt}: ${decision.reason}`,
+          confidence: decision.confidence,
+          candidate: null,
+          rejected: [],
+          expectedType,
+        }, hints.upc, { rescore: false });
+      }
+      console.warn(`[BGG] Not reusing cached decision for ${hints.objectId}: ${problem} – searching instead`);
+    }
+  }
+
   // -------------------------------------------------------------------
   // 1. If UPC available, resolve it to a full product name first
   // -------------------------------------------------------------------
   let searchName = productName;
+  let scoringHints = { year: hints?.year, publisher: hints?.publisher };
 
   if (hints?.upc) {
     console.log(`[BGG] UPC available (${hints.upc}), looking up full title…`);
-    const upcResult = await lookupUpc(hints.upc);
+    const upcResult = await lookupUpc(hints.upc, { excludeObjectId: hints.objectId });
     if (upcResult?.title) {
       // Clean up the UPC title – remove common suffixes like "Board Game", edition info, etc.
       const cleanTitle = upcResult.title
@@ -232,18 +483,41 @@ export async function findBestMatch(
 
       console.log(`[BGG] UPC resolved: "${hints.upc}" → "${cleanTitle}" (brand: ${upcResult.brand ?? "n/a"})`);
       searchName = cleanTitle;
+      if (looksLikeExpansion(cleanTitle)) expectedType = "boardgameexpansion";
+
+      // The UPC brand is the lowest-priority publisher hint
+      if (!scoringHints.publisher && upcResult.brand && isHintSourceEnabled("upc")) {
+        scoringHints = { ...scoringHints, publisher: upcResult.brand };
+      }
     }
   }
 
   // -------------------------------------------------------------------
   // 2. Search BGG (try UPC-resolved name, then fall back to Square name)
   // -------------------------------------------------------------------
-  let match = await searchAndScore(searchName, hints);
+  let match = await searchAndScore(searchName, scoringHints, expectedType, hints?.upc);
+
+  // If the UPC-resolved name didn't produce a confident match and it differs
+  // from the Square name, try the original and keep whichever is more confident
+  if ((!match || match.confidence < getConfidenceThreshold()) && searchName !== productName) {
+    console.log(
+      `[BGG] UPC-based search for "${searchName}" ${match ? `only reached ${match.confidence}` : "failed"}, ` +
+        `trying Square name "${productName}"`
+    );
+    const byName = await searchAndScore(productName, scoringHints, expectedType, hints?.upc);
+    if (byName && (!match || byName.confidence > match.confidence)) match = byName;
+  }
 
-  // If UPC-resolved name didn't work and it differs from the Square name, try the original
-  if (!match && searchName !== productName) {
-    console.log(`[BGG] UPC-based search for "${searchName}" failed, falling back to Square name "${productName}"`);
-    match = await searchAndScore(productName, hints);
+  // Only remember confident matches – a low-confidence one goes to review,
+  // and the reviewer's approval is what gets remembered
+  if (match && hints?.objectId && match.confidence >= getConfidenceThreshold()) {
+    await setMatchDecision(hints.objectId, {
+      bggId: match.detail.bggId,
+      searchName: match.searchName,
+      reason: match.reason,
+      confidence: match.confidence,
+      decidedAt: new Date().toISOString(),
+    });
   }
 
   return match;
@@ -254,60 +528,265 @@ export async function findBestMatch(
  */
 async function searchAndScore(
   searchName: string,
-  hints?: { year?: number; publisher?: string }
-): Promise<BggThingDetail | null> {
-  const results = await searchBgg(searchName);
+  hints: { year?: number; publisher?: string } | undefined,
+  expectedType: BggThingType,
+  upc?: string
+): Promise<BggMatch | null> {
+  const results = await searchBggCached(searchName, expectedType);
   if (results.length === 0) return null;
 
   // Score each result
-  type Scored = BggSearchResult & { score: number };
-  const scored: Scored[] = results.map((r) => {
-    let score = 0;
-
-    // Exact-ish name match (case-insensitive)
-    if (r.name.toLowerCase() === searchName.toLowerCase()) {
-      score += 10;
-    } else if (r.name.toLowerCase().includes(searchName.toLowerCase())) {
-      score += 5;
-    }
+  const scored: ScoredCandidate[] = results.map((r) => {
+    const signals: string[] = [];
+
+    // Fuzzy name similarity, scaled to 0–10 points
+    const nameScore = scoreName(searchName, r.name);
+    let score = Math.round(nameScore.similarity * 100) / 10;
+    signals.push(nameScore.exact ? "exact name" : `name ${Math.round(nameScore.similarity * 100)}%`);
 
     // Year match
     if (hints?.year && r.yearPublished === hints.year) {
       score += 8;
+      signals.push(`year ${hints.year}`);
+    }
+
+    // BGG's boardgame search also returns expansions; prefer base games
+    if (expectedType === "boardgame" && r.type === "boardgameexpansion") {
+      score -= 2;
+      signals.push("expansion");
     }
 
-    return { ...r, score };
+    return { ...r, score, signals, nameScore };
   });
 
   // Sort descending by score, then prefer lower BGG id (older = more canonical)
   scored.sort((a, b) => b.score - a.score || a.bggId - b.bggId);
 
-  // Fetch full details for top candidate(s) and verify publisher if we have a hint
-  for (const candidate of scored.slice(0, 3)) {
-    const detail = await fetchBggThing(candidate.bggId);
-    if (!detail || !detail.imageUrl) continue;
+  // Fetch full details for every candidate we might consider in one batch
+  let top = scored.slice(0, 5);
+  const details = await fetchBggThingsCached(top.map((c) => c.bggId));
+
+  // A candidate with a version carrying the item's UPC beats name scoring
+  const upcHit = upc
+    ? top.find((c) => findVersionByUpc(details.get(c.bggId)?.versions ?? [], upc))
+    : undefined;
+  if (upcHit) {
+    upcHit.signals.push("UPC matches a version");
+    top = [upcHit, ...top.filter((c) => c !== upcHit)];
+  }
+
+  // Verify publisher on the top candidate(s) if we have a hint
+  const rejectedBecause = new Map<number, string>();
+  let winner: { candidate: ScoredCandidate; reason: string; publisherVerified: boolean; fallback: boolean } | null = null;
+
+  for (const candidate of top.slice(0, 3)) {
+    const detail = details.get(candidate.bggId);
+    if (!detail) {
+      rejectedBecause.set(candidate.bggId, "not returned by BGG");
+      continue;
+    }
+    if (!detail.imageUrl) {
+      rejectedBecause.set(candidate.bggId, "no image");
+      continue;
+    }
+    if (isBaseGameForExpansion(detail, expectedType)) {
+      rejectedBecause.set(candidate.bggId, "base game, but the item looks like an expansion");
+      continue;
+    }
 
     // If publisher hint, check it
+    const signals = [...candidate.signals];
     if (hints?.publisher) {
       const pubLower = hints.publisher.toLowerCase();
       const pubMatch = detail.publishers.some((p) =>
         p.toLowerCase().includes(pubLower)
       );
-      if (!pubMatch) continue; // skip – publisher mismatch
+      if (!pubMatch) {
+        rejectedBecause.set(candidate.bggId, `publisher mismatch (wanted "${hints.publisher}")`);
+        continue; // skip – publisher mismatch
+      }
+      signals.push(`publisher "${hints.publisher}"`);
     }
 
-    return detail;
+    winner = {
+      candidate,
+      reason: `score ${candidate.score} (${signals.join(", ")})`,
+      publisherVerified: !!hints?.publisher,
+      fallback: false,
+    };
+    break;
   }
 
   // Fallback: return the first result that has an image, skipping publisher check
-  for (const candidate of scored.slice(0, 5)) {
-    const detail = await fetchBggThing(candidate.bggId);
-    if (detail?.imageUrl) return detail;
+  if (!winner) {
+    for (const candidate of top) {
+      const detail = details.get(candidate.bggId);
+      if (detail?.imageUrl && !isBaseGameForExpansion(detail, expectedType)) {
+        winner = {
+          candidate,
+          reason: `fallback: first result with an image (score ${candidate.score})`,
+          publisherVerified: false,
+          fallback: true,
+        };
+        break;
+      }
+    }
   }
 
+  if (!winner) return null;
+
+  const chosen = winner.candidate;
+  const rejected: RejectedCandidate[] = top
+    .filter((c) => c.bggId !== chosen.bggId)
+    .map((c) => ({
+      ...c,
+      rejectedBecause:
+        rejectedBecause.get(c.bggId) ??
+        (details.get(c.bggId)?.imageUrl ? `lower score than #${chosen.bggId}` : "no image"),
+    }));
+
+  return applyUpcVersion({
+    detail: details.get(chosen.bggId)!,
+    searchName,
+    reason: winner.reason,
+    confidence: computeConfidence(chosen, rejected, {
+      yearHint: hints?.year,
+      publisherVerified: winner.publisherVerified,
+      fallback: winner.fallback,
+    }),
+    candidate: chosen,
+    rejected,
+    expectedType,
+  }, upc);
+}
+
+/**
+ * True if `detail` is a base game but an expansion was expected – an
+ * expansion SKU must never receive base-game art.
+ */
+function isBaseGameForExpansion(detail: BggThingDetail, expectedType: BggThingType): boolean {
+  return expectedType === "boardgameexpansion" && detail.type === "boardgame";
+}
+
+/** Why a decided BGG id can't be used for the item, or null if it can. */
+function decisionProblem(
+  bggId: number,
+  detail: BggThingDetail | null,
+  productName: string,
+  expectedType: BggThingType
+): string | null {
+  if (!detail) return `BGG #${bggId} was not found`;
+  if (!detail.imageUrl) return `BGG #${bggId} "${detail.name}" has no image`;
+  if (isBaseGameForExpansion(detail, expectedType)) {
+    return `BGG #${bggId} "${detail.name}" is a base game, but "${productName}" looks like an expansion`;
+  }
   return null;
 }
 
+/**
+ * Check a reviewer's approved or picked BGG id before it's recorded: returns
+ * why `findBestMatch` would ignore it for this item, or null if it's usable.
+ */
+export async function checkReviewPick(productName: string, bggId: number): Promise<string | null> {
+  const expectedType: BggThingType = looksLikeExpansion(productName) ? "boardgameexpansion" : "boardgame";
+  return decisionProblem(bggId, await fetchBggThingCached(bggId), productName, expectedType);
+}
+
+// ---------------------------------------------------------------------------
+// Versions (edition-specific art by UPC)
+// ---------------------------------------------------------------------------
+
+/**
+ * Find the version whose product code contains `upc`. Product codes may
+ * list several codes separated by spaces, commas or slashes; codes are
+ * compared as canonical GTINs so UPC-A and EAN-13 spellings match.
+ */
+function findVersionByUpc(versions: BggVersion[], upc: string): BggVersion | undefined {
+  const wanted = normalizeGtin(upc);
+  if (!wanted) return undefined;
+  return versions.find((v) =>
+    (v.productCode ?? "").split(/[\s,;/]+/).some((code) => normalizeGtin(code) === wanted)
+  );
+}
+
+/**
+ * If the item has a UPC and one of the matched thing's versions carries it,
+ * switch the match to that version's image and year (correct localized or
+ * reprint box art instead of the generic primary image) and raise the
+ * confidence. Pass `rescore: false` for a stored decision, whose confidence
+ * and reason already include the version match.
+ */
+export function applyUpcVersion(
+  match: BggMatch,
+  upc: string | undefined,
+  options: { rescore?: boolean } = {}
+): BggMatch {
+  if (!upc) return match;
+  const version = findVersionByUpc(match.detail.versions ?? [], upc);
+  if (!version) return match;
+
+  const withVersion: BggMatch = {
+    ...match,
+    detail: {
+      ...match.detail,
+      imageUrl: version.imageUrl ?? match.detail.imageUrl,
+      thumbnailUrl: version.thumbnailUrl ?? match.detail.thumbnailUrl,
+      yearPublished: version.yearPublished ?? match.detail.yearPublished,
+    },
+    version,
+  };
+  if (options.rescore === false) return withVersion;
+
+  return {
+    ...withVersion,
+    reason: `${match.reason}; UPC matches version "${version.name}"`,
+    confidence: Math.min(1, Math.round((match.confidence + 0.2) * 100) / 100),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Confidence
+// ---------------------------------------------------------------------------
+
+const DEFAULT_CONFIDENCE_THRESHOLD = 0.8;
+
+/**
+ * Minimum confidence for a match to be written without human review.
+ * Configured via MATCH_CONFIDENCE_THRESHOLD (0–1, default 0.8).
+ */
+export function getConfidenceThreshold(): number {
+  const value = Number(process.env.MATCH_CONFIDENCE_THRESHOLD);
+  return Number.isFinite(value) && value >= 0 && value <= 1 ? value : DEFAULT_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * Turn a winning candidate into a 0–1 confidence:
+ *   - start from name similarity
+ *   - ±0.1 for a year hint that matches / doesn't
+ *   - +0.1 when the publisher hint was verified
+ *   - −0.15 when a rejected candidate scored within a point (ambiguous)
+ *   - halved for the "first result with an image" fallback
+ */
+function computeConfidence(
+  winner: ScoredCandidate,
+  rejected: ScoredCandidate[],
+  context: { yearHint?: number; publisherVerified: boolean; fallback: boolean }
+): number {
+  let confidence = winner.nameScore.similarity;
+
+  if (context.yearHint) {
+    confidence += winner.yearPublished === context.yearHint ? 0.1 : -0.1;
+  }
+  if (context.publisherVerified) confidence += 0.1;
+
+  const runnerUp = rejected.find((c) => c.score <= winner.score);
+  if (runnerUp && winner.score - runnerUp.score < 1) confidence -= 0.15;
+
+  if (context.fallback) confidence /= 2;
+
+  return Math.round(Math.min(1, Math.max(0, confidence)) * 100) / 100;
+}
+
 // ---------------------------------------------------------------------------
 // Description decoder
 // ---------------------------------------------------------------------------
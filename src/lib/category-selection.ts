@@ -0,0 +1,214 @@
+/**
+ * Which Square categories (and items) the sync looks at.
+ *
+ * Replaces substring matching on a hard-coded keyword list, which pulled in
+ * categories like "Video Games" or "Games Workshop Paint". The config is
+ * kept in the store and edited from the dashboard (/categories).
+ *
+ * A category is decided by the most specific rule that applies:
+ *   1. its id in `excludeIds` / `includeIds`
+ *   2. a keyword rule matching its name (exclude rules beat include rules)
+ *   3. its parent's decision, when `inheritToChildren` is on
+ *   4. otherwise not selected
+ *
+ * An item is synced if it is in a selected category and does not carry the
+ * opt-out custom attribute (`optOutAttribute`, any truthy value).
+ *
+ * Keys:
+ *   config:category-selection → CategorySelectionConfig
+ */
+
+import type { CatalogObject } from "square";
+import { getStore } from "./store";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface KeywordRule {
+  keyword: string;
+  /** "word" matches whole words (plural "s" allowed), "substring" anywhere, "exact" the full name */
+  match: "word" | "substring" | "exact";
+  /** Exclude matching categories instead of including them */
+  exclude?: boolean;
+}
+
+export interface CategorySelectionConfig {
+  includeIds: string[];
+  excludeIds: string[];
+  keywords: KeywordRule[];
+  /** Sub-categories follow their parent's decision unless a rule of their own applies */
+  inheritToChildren: boolean;
+  /** Item custom attribute (key or name) that opts an item out of the sync */
+  optOutAttribute: string;
+  updatedAt?: string;
+}
+
+export interface CategoryInfo {
+  id: string;
+  name: string;
+  parentId: string | null;
+}
+
+export interface CategoryDecision extends CategoryInfo {
+  selected: boolean;
+  /** Which rule decided, e.g. 'keyword "board game"' or 'inherited from "Games"' */
+  reason: string;
+}
+
+export const DEFAULT_CATEGORY_SELECTION: CategorySelectionConfig = {
+  includeIds: [],
+  excludeIds: [],
+  keywords: [
+    { keyword: "board game", match: "word" },
+    { keyword: "card game", match: "word" },
+    { keyword: "tabletop", match: "word" },
+    { keyword: "table top", match: "word" },
+    { keyword: "games", match: "word" },
+    // Compound names the old substring check matched ("Boardgames", "Wargames")
+    { keyword: "boardgame", match: "substring" },
+    { keyword: "cardgame", match: "substring" },
+    { keyword: "wargame", match: "substring" },
+    { keyword: "video game", match: "word", exclude: true },
+    { keyword: "games workshop", match: "substring", exclude: true },
+  ],
+  inheritToChildren: true,
+  optOutAttribute: "skip_bgg_sync",
+};
+
+const KEY = "config:category-selection";
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+export async function getCategorySelectionConfig(): Promise<CategorySelectionConfig> {
+  const stored = await getStore().get<CategorySelectionConfig>(KEY);
+  return { ...DEFAULT_CATEGORY_SELECTION, ...stored };
+}
+
+export async function setCategorySelectionConfig(config: CategorySelectionConfig): Promise<CategorySelectionConfig> {
+  const saved = { ...config, updatedAt: new Date().toISOString() };
+  await getStore().set(KEY, saved);
+  return saved;
+}
+
+/** Check a config from the dashboard / API; returns an error message or null. */
+export function validateCategorySelectionConfig(config: any): string | null {
+  if (!config || typeof config !== "object") return "config must be an object";
+  for (const field of ["includeIds", "excludeIds"]) {
+    if (!Array.isArray(config[field]) || config[field].some((id: unknown) => typeof id !== "string")) {
+      return `${field} must be an array of category ids`;
+    }
+  }
+  if (!Array.isArray(config.keywords)) return "keywords must be an array";
+  for (const rule of config.keywords) {
+    if (typeof rule?.keyword !== "string" || !rule.keyword.trim()) return "every keyword rule needs a keyword";
+    if (!["word", "substring", "exact"].includes(rule.match)) {
+      return `keyword "${rule.keyword}": match must be "word", "substring" or "exact"`;
+    }
+  }
+  if (typeof config.inheritToChildren !== "boolean") return "inheritToChildren must be a boolean";
+  if (typeof config.optOutAttribute !== "string") return "optOutAttribute must be a string";
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Resolver
+// ---------------------------------------------------------------------------
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function keywordMatches(rule: KeywordRule, name: string): boolean {
+  const keyword = rule.keyword.trim().toLowerCase();
+  const lower = name.trim().toLowerCase();
+  if (rule.match === "exact") return lower === keyword;
+  if (rule.match === "substring") return lower.includes(keyword);
+  return new RegExp(`\\b${escapeRegExp(keyword)}s?\\b`).test(lower);
+}
+
+/** Decide every category. Parents are resolved before their children. */
+export function resolveCategories(
+  categories: CategoryInfo[],
+  config: CategorySelectionConfig
+): Map<string, CategoryDecision> {
+  const byId = new Map(categories.map((c) => [c.id, c]));
+  const decisions = new Map<string, CategoryDecision>();
+
+  const decide = (category: CategoryInfo, seen: Set<string>): CategoryDecision => {
+    const existing = decisions.get(category.id);
+    if (existing) return existing;
+
+    const result = (selected: boolean, reason: string) => {
+      const decision = { ...category, selected, reason };
+      decisions.set(category.id, decision);
+      return decision;
+    };
+
+    if (config.excludeIds.includes(category.id)) return result(false, "excluded by id");
+    if (config.includeIds.includes(category.id)) return result(true, "included by id");
+
+    const excludeRule = config.keywords.find((r) => r.exclude && keywordMatches(r, category.name));
+    if (excludeRule) return result(false, `excluded by keyword "${excludeRule.keyword}"`);
+    const includeRule = config.keywords.find((r) => !r.exclude && keywordMatches(r, category.name));
+    if (includeRule) return result(true, `keyword "${includeRule.keyword}"`);
+
+    const parent = category.parentId ? byId.get(category.parentId) : undefined;
+    // `seen` guards against a parent cycle in malformed data
+    if (config.inheritToChildren && parent && !seen.has(parent.id)) {
+      const parentDecision = decide(parent, new Set([...seen, category.id]));
+      return result(parentDecision.selected, `inherited from "${parent.name}"`);
+    }
+
+    return result(false, "no rule matched");
+  };
+
+  for (const category of categories) decide(category, new Set());
+  return decisions;
+}
+
+/** Category ids an ITEM object belongs to (legacy `categoryId` plus `categories`). */
+export function itemCategoryIds(obj: CatalogObject): string[] {
+  const itemData = obj.itemData;
+  const ids: string[] = [];
+  if (itemData?.categoryId) ids.push(itemData.categoryId);
+  for (const c of itemData?.categories ?? []) {
+    if (c.id && !ids.includes(c.id)) ids.push(c.id);
+  }
+  return ids;
+}
+
+/** Whether the item carries the opt-out custom attribute with a truthy value. */
+export function isItemOptedOut(obj: CatalogObject, config: CategorySelectionConfig): boolean {
+  const wanted = config.optOutAttribute.trim().toLowerCase();
+  if (!wanted) return false;
+
+  return Object.entries(obj.customAttributeValues ?? {}).some(([key, value]) => {
+    const ids = [key.toLowerCase(), key.split(":").pop()!.toLowerCase(), (value.name ?? "").toLowerCase()];
+    if (!ids.includes(wanted)) return false;
+    if (value.booleanValue !== undefined && value.booleanValue !== null) return value.booleanValue;
+    const text = String(value.stringValue ?? value.numberValue ?? "").trim().toLowerCase();
+    return text.length > 0 && !["false", "no", "0"].includes(text);
+  });
+}
+
+export type ItemSelection =
+  | { selected: true; categoryIds: string[] }
+  | { selected: false; categoryIds: string[]; reason: "no-category" | "not-selected" | "opted-out" };
+
+/** The single place that decides whether an ITEM is part of the sync. */
+export function selectItem(
+  obj: CatalogObject,
+  decisions: Map<string, CategoryDecision>,
+  config: CategorySelectionConfig
+): ItemSelection {
+  const categoryIds = itemCategoryIds(obj);
+  if (categoryIds.length === 0) return { selected: false, categoryIds, reason: "no-category" };
+  if (!categoryIds.some((id) => decisions.get(id)?.selected)) {
+    return { selected: false, categoryIds, reason: "not-selected" };
+  }
+  if (isItemOptedOut(obj, config)) return { selected: false, categoryIds, reason: "opted-out" };
+  return { selected: true, categoryIds };
+}
@@ -0,0 +1,151 @@
+/**
+ * GTIN / UPC / EAN / ISBN barcode handling.
+ *
+ * Square variations carry barcodes exactly as staff typed them: 12-digit
+ * UPC-A, EAN-13 with a leading zero, 14-digit GTINs from distributors,
+ * ISBNs on book-format games, and typos. Everything that talks about a
+ * barcode (lookups, cache keys, BGG version codes) goes through here so the
+ * same product always has the same canonical code, and bad codes are
+ * flagged instead of wasting lookups.
+ *
+ * Canonical form: GTIN-13 (UPC-A gets a leading zero), or GTIN-14 when the
+ * packaging indicator digit is not zero.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type BarcodeKind = "ean-8" | "upc-a" | "ean-13" | "isbn-13" | "isbn-10" | "gtin-14";
+
+export type ParsedBarcode =
+  | {
+      valid: true;
+      raw: string;
+      kind: BarcodeKind;
+      /** Canonical GTIN-13 / GTIN-14 – use this for comparisons and keys */
+      gtin: string;
+      /** 14-digit zero-padded form */
+      gtin14: string;
+      /** 12-digit UPC-A form, when the code is a UPC */
+      upcA: string | null;
+      /** 13-digit EAN form, when the code fits in 13 digits */
+      ean13: string | null;
+    }
+  | { valid: false; raw: string; problem: string };
+
+export type ValidBarcode = Extract<ParsedBarcode, { valid: true }>;
+
+// ---------------------------------------------------------------------------
+// Check digits
+// ---------------------------------------------------------------------------
+
+/** GS1 mod-10 check digit for the digits preceding it. */
+export function gs1CheckDigit(body: string): number {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    // Weights alternate 3,1,3,… starting from the rightmost body digit
+    const weight = (body.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(body[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/** Whether an 8/12/13/14-digit GTIN has a correct check digit. */
+export function hasValidCheckDigit(digits: string): boolean {
+  if (!/^\d{8}$|^\d{12,14}$/.test(digits)) return false;
+  return gs1CheckDigit(digits.slice(0, -1)) === Number(digits.slice(-1));
+}
+
+function isValidIsbn10(isbn: string): boolean {
+  if (!/^\d{9}[\dX]$/.test(isbn)) return false;
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const value = isbn[i] === "X" ? 10 : Number(isbn[i]);
+    sum += value * (10 - i);
+  }
+  return sum % 11 === 0;
+}
+
+// ---------------------------------------------------------------------------
+// Conversions
+// ---------------------------------------------------------------------------
+
+/** UPC-A (12 digits) → EAN-13 (leading zero). */
+export function upcAToEan13(upc: string): string {
+  return `0${upc}`;
+}
+
+/** EAN-13 → UPC-A, or null if the EAN is not a US/Canada UPC (no leading zero). */
+export function ean13ToUpcA(ean: string): string | null {
+  return ean.length === 13 && ean.startsWith("0") ? ean.slice(1) : null;
+}
+
+/** ISBN-10 → ISBN-13 (978 prefix, recomputed check digit). */
+export function isbn10ToIsbn13(isbn: string): string {
+  const body = `978${isbn.slice(0, 9)}`;
+  return `${body}${gs1CheckDigit(body)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a barcode as typed (spaces, dashes and a "UPC:" style prefix are
+ * tolerated) and validate it.
+ */
+export function parseBarcode(input: string): ParsedBarcode {
+  const raw = input.trim();
+  const compact = raw.toUpperCase().replace(/^(UPC|EAN|GTIN|ISBN)(-?1[034])?:?/, "").replace(/[\s-]/g, "");
+
+  if (!compact) return { valid: false, raw, problem: "empty" };
+
+  // ISBN-10 (may end in X) – convert to its ISBN-13 / EAN-13 form
+  if (compact.length === 10) {
+    if (!isValidIsbn10(compact)) return { valid: false, raw, problem: "invalid ISBN-10 check digit" };
+    return build(raw, "isbn-10", isbn10ToIsbn13(compact));
+  }
+
+  if (!/^\d+$/.test(compact)) return { valid: false, raw, problem: "contains non-digit characters" };
+  if (![8, 12, 13, 14].includes(compact.length)) {
+    return { valid: false, raw, problem: `unexpected length ${compact.length}` };
+  }
+  if (!hasValidCheckDigit(compact)) return { valid: false, raw, problem: "check digit mismatch" };
+
+  const kind: BarcodeKind =
+    compact.length === 8
+      ? "ean-8"
+      : compact.length === 12
+        ? "upc-a"
+        : compact.length === 14
+          ? "gtin-14"
+          : /^97[89]/.test(compact)
+            ? "isbn-13"
+            : "ean-13";
+
+  return build(raw, kind, compact);
+}
+
+function build(raw: string, kind: BarcodeKind, digits: string): ParsedBarcode {
+  const gtin14 = digits.padStart(14, "0");
+  const gtin = gtin14.startsWith("0") ? gtin14.slice(1) : gtin14;
+  const ean13 = gtin.length === 13 ? gtin : null;
+  // EAN-8 codes are not UPCs even though they pad to a leading zero
+  const upcA = kind !== "ean-8" && ean13 ? ean13ToUpcA(ean13) : null;
+  return { valid: true, raw, kind, gtin, gtin14, upcA, ean13 };
+}
+
+/** Canonical GTIN-13/14 for a barcode, or null if it is invalid. */
+export function normalizeGtin(input: string): string | null {
+  const parsed = parseBarcode(input);
+  return parsed.valid ? parsed.gtin : null;
+}
+
+/**
+ * The forms a barcode may be stored or queried as elsewhere (UPC-A,
+ * EAN-13, GTIN-14), most common first.
+ */
+export function barcodeForms(parsed: ValidBarcode): string[] {
+  return [...new Set([parsed.upcA, parsed.ean13, parsed.gtin14].filter((f): f is string => !!f))];
+}
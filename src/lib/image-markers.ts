@@ -0,0 +1,44 @@
+/**
+ * Markers for Square images this tool created.
+ *
+ * Images are also captioned "Imported from BoardGameGeek", but staff can
+ * edit captions; the marker is what the image policies (replace-bgg-only,
+ * replace-all) rely on to tell our images from staff photos.
+ *
+ * Keys:
+ *   image:bgg:<square image id> → ImageMarker
+ */
+
+import { getStore } from "./store";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ImageMarker {
+  imageId: string;
+  /** Square item the image was attached to */
+  objectId: string;
+  bggId: number | null;
+  /** BGG image URL the bytes were downloaded from */
+  sourceUrl: string;
+  uploadedAt: string;
+}
+
+const key = (imageId: string) => `image:bgg:${imageId}`;
+
+// ---------------------------------------------------------------------------
+// Operations
+// ---------------------------------------------------------------------------
+
+export function getImageMarker(imageId: string): Promise<ImageMarker | null> {
+  return getStore().get<ImageMarker>(key(imageId));
+}
+
+export async function setImageMarker(marker: ImageMarker): Promise<void> {
+  await getStore().set(key(marker.imageId), marker);
+}
+
+export function deleteImageMarker(imageId: string): Promise<void> {
+  return getStore().delete(key(imageId));
+}
@@ -0,0 +1,160 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import sharp from "sharp";
+import { afterEach, describe, expect, it } from "vitest";
+import { ImageRejectedError, processImageForSquare, sniffImageFormat } from "./image-processing";
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, "__fixtures__", "images", name));
+
+const ENV_VARS = [
+  "SQUARE_IMAGE_MAX_BYTES",
+  "IMAGE_MIN_DIMENSION",
+  "IMAGE_SQUARE_CANVAS",
+  "IMAGE_CANVAS_SIZE",
+  "IMAGE_CANVAS_BACKGROUND",
+];
+
+afterEach(() => {
+  for (const name of ENV_VARS) delete process.env[name];
+});
+
+// ---------------------------------------------------------------------------
+// Format sniffing
+// ---------------------------------------------------------------------------
+
+describe("sniffImageFormat", () => {
+  it.each([
+    ["box-art.png", "png"],
+    ["box-art.gif", "gif"],
+    ["box-art.webp", "webp"],
+    ["tiny.jpg", "jpeg"],
+  ])("detects %s as %s", (name, format) => {
+    expect(sniffImageFormat(fixture(name))).toBe(format);
+  });
+
+  it("detects formats Square doesn't accept from their headers", () => {
+    expect(sniffImageFormat(Buffer.from("BM\0\0\0\0"))).toBe("bmp");
+    expect(sniffImageFormat(Buffer.from("II*\0\0\0\0\0"))).toBe("tiff");
+    expect(sniffImageFormat(Buffer.from("\0\0\0\x1cftypavif"))).toBe("avif");
+    expect(sniffImageFormat(Buffer.from("\0\0\0\x18ftypheic"))).toBe("heic");
+  });
+
+  it("returns null for anything else", () => {
+    expect(sniffImageFormat(Buffer.from("<html>Not found</html>"))).toBeNull();
+    expect(sniffImageFormat(Buffer.alloc(0))).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Pipeline
+// ---------------------------------------------------------------------------
+
+describe("processImageForSquare", () => {
+  it("passes PNG through untouched", async () => {
+    const input = fixture("box-art.png");
+    const result = await processImageForSquare(input);
+
+    expect(result.format).toBe("png");
+    expect(result.contentType).toBe("image/png");
+    expect(result.steps).toEqual([]);
+    expect(result.buffer.equals(input)).toBe(true);
+    expect([result.width, result.height]).toEqual([240, 320]);
+  });
+
+  it("passes GIF through untouched", async () => {
+    const input = fixture("box-art.gif");
+    const result = await processImageForSquare(input);
+
+    expect(result.format).toBe("gif");
+    expect(result.extension).toBe("gif");
+    expect(result.buffer.equals(input)).toBe(true);
+  });
+
+  it("converts opaque WebP to JPEG", async () => {
+    const result = await processImageForSquare(fixture("box-art.webp"));
+
+    expect(result.format).toBe("jpeg");
+    expect(result.extension).toBe("jpg");
+    expect(result.steps).toContain("webp → jpeg");
+    expect(sniffImageFormat(result.buffer)).toBe("jpeg");
+  });
+
+  it("converts transparent WebP to PNG", async () => {
+    const result = await processImageForSquare(fixture("box-art-alpha.webp"));
+
+    expect(result.format).toBe("png");
+    expect(result.steps).toContain("webp → png");
+    expect(sniffImageFormat(result.buffer)).toBe("png");
+    expect((await sharp(result.buffer).metadata()).hasAlpha).toBe(true);
+  });
+
+  it("rejects images below the minimum dimension", async () => {
+    await expect(processImageForSquare(fixture("tiny.jpg"))).rejects.toThrow(ImageRejectedError);
+    await expect(processImageForSquare(fixture("tiny.jpg"))).rejects.toThrow(/too small \(64×64/);
+  });
+
+  it("honours IMAGE_MIN_DIMENSION", async () => {
+    process.env.IMAGE_MIN_DIMENSION = "32";
+    const result = await processImageForSquare(fixture("tiny.jpg"));
+    expect(result.format).toBe("jpeg");
+  });
+
+  it("rejects blank single-colour images", async () => {
+    await expect(processImageForSquare(fixture("blank.png"))).rejects.toThrow(/blank/);
+  });
+
+  it("rejects placeholder URLs and unrecognized files", async () => {
+    await expect(
+      processImageForSquare(fixture("box-art.png"), "https://cf.geekdo-images.com/nophoto.png")
+    ).rejects.toThrow(/Placeholder/);
+    await expect(processImageForSquare(Buffer.from("<html></html>"))).rejects.toThrow(ImageRejectedError);
+  });
+
+  it("re-encodes images over the size limit", async () => {
+    process.env.SQUARE_IMAGE_MAX_BYTES = "8000";
+    const input = fixture("box-art.png");
+    expect(input.length).toBeGreaterThan(8000);
+
+    const result = await processImageForSquare(input);
+
+    expect(result.format).toBe("jpeg");
+    expect(result.buffer.length).toBeLessThanOrEqual(8000);
+    expect(result.steps.some((step) => step.startsWith("re-encoded"))).toBe(true);
+    const meta = await sharp(result.buffer).metadata();
+    expect([meta.width, meta.height]).toEqual([result.width, result.height]);
+  });
+
+  it("rejects images that can't get under the size limit", async () => {
+    process.env.SQUARE_IMAGE_MAX_BYTES = "100";
+    await expect(processImageForSquare(fixture("box-art.png"))).rejects.toThrow(/under 100 bytes/);
+  });
+
+  it("pads onto a square canvas", async () => {
+    process.env.IMAGE_SQUARE_CANVAS = "true";
+    const result = await processImageForSquare(fixture("box-art.png"));
+
+    expect(result.steps).toContain("padded to 320×320");
+    expect([result.width, result.height]).toEqual([320, 320]);
+    const meta = await sharp(result.buffer).metadata();
+    expect([meta.width, meta.height]).toEqual([320, 320]);
+  });
+
+  it("resizes the canvas to IMAGE_CANVAS_SIZE", async () => {
+    process.env.IMAGE_SQUARE_CANVAS = "true";
+    process.env.IMAGE_CANVAS_SIZE = "256";
+    const result = await processImageForSquare(fixture("box-art.webp"));
+
+    expect(result.format).toBe("jpeg");
+    const meta = await sharp(result.buffer).metadata();
+    expect([meta.width, meta.height]).toEqual([256, 256]);
+  });
+
+  it("pads GIFs into PNG rather than a 256-colour GIF", async () => {
+    process.env.IMAGE_SQUARE_CANVAS = "true";
+    process.env.IMAGE_CANVAS_SIZE = "400";
+    const result = await processImageForSquare(fixture("box-art.gif"));
+
+    expect(result.format).toBe("png");
+    expect(result.steps).toEqual(["padded to 400×400", "gif → png"]);
+  });
+});
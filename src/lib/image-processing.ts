@@ -0,0 +1,230 @@
+/**
+ * Image processing between the BGG download and the Square upload.
+ *
+ *   1. Sniff the real format from magic bytes (BGG serves JPEG, PNG, WebP, GIF…)
+ *   2. Reject tiny images and placeholders ("no image" art, blank canvases)
+ *   3. Optionally pad / resize onto a square canvas for consistent POS tiles
+ *   4. Convert formats Square doesn't accept (it takes JPEG, PNG and GIF)
+ *   5. Re-encode (lower quality, then smaller) until under Square's size limit
+ *
+ * Env vars:
+ *   SQUARE_IMAGE_MAX_BYTES   – upload size limit in bytes (default: 15728640, Square's 15 MB)
+ *   IMAGE_MIN_DIMENSION      – reject images narrower or shorter than this, in px (default: 200)
+ *   IMAGE_SQUARE_CANVAS      – "true" to pad images onto a square canvas (default: off)
+ *   IMAGE_CANVAS_SIZE        – also resize the square canvas to this many px (default: keep size)
+ *   IMAGE_CANVAS_BACKGROUND  – canvas / transparency background colour (default: "#ffffff")
+ */
+
+import sharp from "sharp";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ImageFormat = "jpeg" | "png" | "gif" | "webp" | "bmp" | "tiff" | "avif" | "heic";
+
+/** Formats Square's CreateCatalogImage accepts as-is. */
+const SQUARE_FORMATS: ImageFormat[] = ["jpeg", "png", "gif"];
+
+const CONTENT_TYPES: Record<"jpeg" | "png" | "gif", string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+};
+
+export interface ProcessedImage {
+  buffer: Buffer;
+  format: "jpeg" | "png" | "gif";
+  contentType: string;
+  /** File extension without the dot */
+  extension: string;
+  width: number;
+  height: number;
+  /** What the pipeline did, for logs, e.g. ["webp → jpeg", "padded to 800×800"] */
+  steps: string[];
+}
+
+/** The image is unusable; retrying the download won't help. */
+export class ImageRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageRejectedError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+function getImageConfig() {
+  const canvasSize = Number(process.env.IMAGE_CANVAS_SIZE);
+  return {
+    maxBytes: Number(process.env.SQUARE_IMAGE_MAX_BYTES) || 15 * 1024 * 1024,
+    minDimension: Number(process.env.IMAGE_MIN_DIMENSION) || 200,
+    squareCanvas: process.env.IMAGE_SQUARE_CANVAS === "true",
+    canvasSize: Number.isInteger(canvasSize) && canvasSize > 0 ? canvasSize : null,
+    background: process.env.IMAGE_CANVAS_BACKGROUND || "#ffffff",
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Format sniffing
+// ---------------------------------------------------------------------------
+
+/** Detect the image format from its magic bytes; null if unrecognized. */
+export function sniffImageFormat(buf: Buffer): ImageFormat | null {
+  const ascii = (start: number, end: number) => buf.subarray(start, end).toString("latin1");
+
+  if (buf.length >= 3 && buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) return "jpeg";
+  if (buf.length >= 8 && buf.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "png";
+  }
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") return "gif";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "webp";
+  if (ascii(0, 2) === "BM") return "bmp";
+  if (ascii(0, 4) === "II*\0" || ascii(0, 4) === "MM\0*") return "tiff";
+  if (ascii(4, 8) === "ftyp") {
+    const brand = ascii(8, 12);
+    if (brand === "avif" || brand === "avis") return "avif";
+    if (["heic", "heix", "mif1", "msf1"].includes(brand)) return "heic";
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Placeholder detection
+// ---------------------------------------------------------------------------
+
+/** BGG's "no image" art and similar stand-ins, by URL. */
+const PLACEHOLDER_URL_PATTERN = /(nophoto|no[-_]?image|placeholder|default[-_]?image)/i;
+
+export function isPlaceholderUrl(url: string): boolean {
+  return PLACEHOLDER_URL_PATTERN.test(url);
+}
+
+/** A (near) single-colour image – a blank canvas rather than box art. */
+async function isBlankImage(buf: Buffer): Promise<boolean> {
+  const { channels } = await sharp(buf).stats();
+  return channels.slice(0, 3).every((c) => c.stdev < 4);
+}
+
+// ---------------------------------------------------------------------------
+// Pipeline
+// ---------------------------------------------------------------------------
+
+/**
+ * Turn downloaded bytes into something Square will accept, or throw
+ * `ImageRejectedError` if the image isn't worth uploading.
+ */
+export async function processImageForSquare(input: Buffer, sourceUrl?: string): Promise<ProcessedImage> {
+  const config = getImageConfig();
+  const steps: string[] = [];
+
+  if (sourceUrl && isPlaceholderUrl(sourceUrl)) {
+    throw new ImageRejectedError(`Placeholder image URL: ${sourceUrl}`);
+  }
+
+  const sniffed = sniffImageFormat(input);
+  if (!sniffed) throw new ImageRejectedError("Downloaded file is not a recognized image format");
+
+  let meta: sharp.Metadata;
+  try {
+    meta = await sharp(input).metadata();
+  } catch (err: any) {
+    throw new ImageRejectedError(`Could not decode ${sniffed} image: ${err.message}`);
+  }
+
+  const width = meta.width ?? 0;
+  const height = meta.height ?? 0;
+  if (width < config.minDimension || height < config.minDimension) {
+    throw new ImageRejectedError(`Image is too small (${width}×${height}, minimum ${config.minDimension}px)`);
+  }
+  if (await isBlankImage(input)) {
+    throw new ImageRejectedError("Image is a blank / single-colour placeholder");
+  }
+
+  // Accepted formats (including animated GIFs) pass through untouched unless padded or shrunk
+  let format: ProcessedImage["format"] = SQUARE_FORMATS.includes(sniffed)
+    ? (sniffed as ProcessedImage["format"])
+    : meta.hasAlpha
+      ? "png"
+      : "jpeg";
+  if (format !== sniffed) steps.push(`${sniffed} → ${format}`);
+
+  let buffer = input;
+  // Decoded-and-padded source for re-encoding, before any quality loss
+  let base = input;
+  let outWidth = width;
+  let outHeight = height;
+
+  if (config.squareCanvas && (width !== height || (config.canvasSize && config.canvasSize !== width))) {
+    const side = config.canvasSize ?? Math.max(width, height);
+    base = await sharp(input)
+      .resize({ width: side, height: side, fit: "contain", background: config.background })
+      .toBuffer();
+    buffer = base;
+    outWidth = outHeight = side;
+    steps.push(`padded to ${side}×${side}`);
+    // GIF output would drop to 256 colours; keep canvases as JPEG / PNG
+    if (format === "gif") {
+      format = "png";
+      steps.push("gif → png");
+    }
+  }
+
+  if (steps.length > 0) {
+    buffer = await encode(buffer, format, config.background, 90);
+  }
+
+  // Enforce the size limit: lower JPEG quality first, then shrink
+  if (buffer.length > config.maxBytes) {
+    const originalBytes = buffer.length;
+    format = "jpeg";
+    let quality = 85;
+    let scale = 1;
+    for (;;) {
+      const resized =
+        scale === 1
+          ? base
+          : await sharp(base)
+              .resize({ width: Math.round(outWidth * scale), height: Math.round(outHeight * scale), fit: "fill" })
+              .toBuffer();
+      buffer = await encode(resized, "jpeg", config.background, quality);
+      if (buffer.length <= config.maxBytes) break;
+
+      if (quality > 55) {
+        quality -= 10;
+      } else {
+        scale *= 0.75;
+      }
+      if (Math.min(outWidth, outHeight) * scale < config.minDimension) {
+        throw new ImageRejectedError(`Could not get image under ${config.maxBytes} bytes`);
+      }
+    }
+    outWidth = Math.round(outWidth * scale);
+    outHeight = Math.round(outHeight * scale);
+    steps.push(`re-encoded ${originalBytes} → ${buffer.length} bytes (jpeg q${quality}, ${outWidth}×${outHeight})`);
+  }
+
+  return {
+    buffer,
+    format,
+    contentType: CONTENT_TYPES[format],
+    extension: format === "jpeg" ? "jpg" : format,
+    width: outWidth,
+    height: outHeight,
+    steps,
+  };
+}
+
+async function encode(
+  buf: Buffer,
+  format: ProcessedImage["format"],
+  background: string,
+  quality: number
+): Promise<Buffer> {
+  const image = sharp(buf);
+  if (format === "jpeg") return image.flatten({ background }).jpeg({ quality, mozjpeg: true }).toBuffer();
+  if (format === "png") return image.png({ compressionLevel: 9 }).toBuffer();
+  return image.gif().toBuffer();
+}
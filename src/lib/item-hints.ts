@@ -0,0 +1,129 @@
+/**
+ * Year / publisher hints for BGG matching, extracted from Square item data.
+ *
+ * Sources (tried in the order configured by SQUARE_HINT_SOURCES):
+ *   attributes – item custom attributes (keys or names listed in
+ *                SQUARE_YEAR_ATTRIBUTE_KEYS / SQUARE_PUBLISHER_ATTRIBUTE_KEYS)
+ *   variation  – a year in a variation name, e.g. "2nd Edition 2019"
+ *   upc        – the brand returned by the UPC lookup (applied in findBestMatch)
+ *
+ * A brand kept on the item itself is read as a custom attribute ("brand" is
+ * a default publisher key). Square's vendor links aren't used: this SDK
+ * version drops them from catalog responses.
+ *
+ * Env vars:
+ *   SQUARE_HINT_SOURCES              – default "attributes,variation,upc"
+ *   SQUARE_YEAR_ATTRIBUTE_KEYS       – default "year,year_published"
+ *   SQUARE_PUBLISHER_ATTRIBUTE_KEYS  – default "publisher,brand"
+ */
+
+import type { CatalogObject } from "square";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type HintSource = "attributes" | "variation" | "upc";
+
+/** Raw hint values found on one catalog item, per source. */
+export interface HintCandidates {
+  attributes: { year?: number; publisher?: string };
+  variation: { year?: number };
+}
+
+export interface ResolvedHints {
+  year?: number;
+  publisher?: string;
+  /** Which source each hint came from, for debugging matches */
+  sources: { year?: HintSource; publisher?: HintSource };
+}
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+const ALL_SOURCES: HintSource[] = ["attributes", "variation", "upc"];
+
+function csvEnv(name: string, fallback: string): string[] {
+  return (process.env[name] ?? fallback)
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter((s) => s.length > 0);
+}
+
+/** Configured hint sources, in priority order. */
+export function getHintSources(): HintSource[] {
+  return csvEnv("SQUARE_HINT_SOURCES", ALL_SOURCES.join(",")).filter((s): s is HintSource =>
+    (ALL_SOURCES as string[]).includes(s)
+  );
+}
+
+export function isHintSourceEnabled(source: HintSource): boolean {
+  return getHintSources().includes(source);
+}
+
+// ---------------------------------------------------------------------------
+// Extraction
+// ---------------------------------------------------------------------------
+
+/** Find a plausible publication year (1950–2049) in free text. */
+export function extractYear(text: string | null | undefined): number | undefined {
+  const m = text?.match(/\b(19[5-9]\d|20[0-4]\d)\b/);
+  return m ? Number(m[1]) : undefined;
+}
+
+/** Collect hint candidates from an ITEM catalog object. */
+export function collectHintCandidates(obj: CatalogObject): HintCandidates {
+  const yearKeys = csvEnv("SQUARE_YEAR_ATTRIBUTE_KEYS", "year,year_published");
+  const publisherKeys = csvEnv("SQUARE_PUBLISHER_ATTRIBUTE_KEYS", "publisher,brand");
+
+  // Custom attributes: match on the key (app-defined) or the display name (seller-defined)
+  const attributes: HintCandidates["attributes"] = {};
+  for (const [key, value] of Object.entries(obj.customAttributeValues ?? {})) {
+    const ids = [key.toLowerCase(), key.split(":").pop()!.toLowerCase(), (value.name ?? "").toLowerCase()];
+    const text = value.stringValue ?? value.numberValue ?? null;
+    if (!text) continue;
+
+    if (!attributes.year && ids.some((id) => yearKeys.includes(id))) {
+      attributes.year = extractYear(text);
+    }
+    if (!attributes.publisher && ids.some((id) => publisherKeys.includes(id))) {
+      attributes.publisher = text.trim() || undefined;
+    }
+  }
+
+  // Variation names ("2nd Edition 2019")
+  const variation: HintCandidates["variation"] = {};
+  for (const v of obj.itemData?.variations ?? []) {
+    variation.year ??= extractYear(v.itemVariationData?.name);
+  }
+
+  return { attributes, variation };
+}
+
+/** Pick the year / publisher from the first configured source that has one. */
+export function resolveHints(candidates: HintCandidates): ResolvedHints {
+  const resolved: ResolvedHints = { sources: {} };
+
+  for (const source of getHintSources()) {
+    let year: number | undefined;
+    let publisher: string | undefined;
+
+    if (source === "attributes") {
+      ({ year, publisher } = candidates.attributes);
+    } else if (source === "variation") {
+      year = candidates.variation.year;
+    }
+
+    if (year && !resolved.year) {
+      resolved.year = year;
+      resolved.sources.year = source;
+    }
+    if (publisher && !resolved.publisher) {
+      resolved.publisher = publisher;
+      resolved.sources.publisher = source;
+    }
+  }
+
+  return resolved;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { normalizeName, scoreName } from "./name-match";
+
+const MATCH_THRESHOLD = 0.8;
+
+describe("normalizeName", () => {
+  it("strips a trailing generic board game", () => {
+    expect(normalizeName("Catan Board Game").full).toBe("catan");
+    expect(normalizeName("Catan: The Board Game").subtitle).toBeNull();
+    expect(normalizeName("Wingspan Board Game (Sealed)").full).toBe("wingspan");
+  });
+
+  it("keeps card and dice game as part of the name", () => {
+    expect(normalizeName("Catan Card Game").full).toBe("catan card game");
+    expect(normalizeName("Terraforming Mars: The Dice Game").subtitle).toBe("the dice game");
+  });
+});
+
+describe("scoreName", () => {
+  it("matches a product named with a trailing board game exactly", () => {
+    expect(scoreName("Catan Board Game", "CATAN").exact).toBe(true);
+  });
+
+  it.each([
+    ["Catan Card Game", "CATAN"],
+    ["The Lord of the Rings: The Card Game", "The Lord of the Rings"],
+    ["Terraforming Mars: The Dice Game", "Terraforming Mars"],
+  ])("doesn't match %s to the base game %s", (query, candidate) => {
+    const score = scoreName(query, candidate);
+    expect(score.exact).toBe(false);
+    expect(score.similarity).toBeLessThan(MATCH_THRESHOLD);
+  });
+
+  it("still matches the card game to itself", () => {
+    expect(scoreName("Catan Card Game", "Catan Card Game").similarity).toBe(1);
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Fuzzy product-name similarity for matching Square item names against
+ * BGG names.
+ *
+ * Pipeline for each name:
+ *   1. Strip trademark symbols and diacritics, drop (Sealed) / [Used]-style
+ *      parentheticals, lowercase, turn punctuation into spaces.
+ *   2. Remove edition noise ("5th Edition", "Deluxe Edition", a trailing
+ *      "Board Game").
+ *   3. Split off a subtitle (text after ":" / " - " / "–").
+ *
+ * The similarity combines exact normalized equality, token-set overlap
+ * (stopwords ignored), character edit distance, and subtitle handling.
+ * The full breakdown is returned so callers can explain why a candidate won.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface NameScoreBreakdown {
+  /** Normalized form of the query (Square / UPC name) */
+  normalizedQuery: string;
+  /** Normalized form of the candidate (BGG name) */
+  normalizedCandidate: string;
+  /** Normalized names are identical */
+  exact: boolean;
+  /** Jaccard overlap of significant tokens, 0–1 */
+  tokenSet: number;
+  /** Share of the smaller token set found in the larger one, 0–1 */
+  containment: number;
+  /** 1 − normalized Levenshtein distance, 0–1 */
+  editSimilarity: number;
+  /** Score from main-title / subtitle comparison, 0–1 (0 when not applicable) */
+  subtitle: number;
+  /** Final similarity, 0–1 */
+  similarity: number;
+}
+
+// ---------------------------------------------------------------------------
+// Normalization
+// ---------------------------------------------------------------------------
+
+const STOPWORDS = new Set(["the", "a", "an", "of", "and", "game", "edition"]);
+
+/** Phrases that describe the printing rather than the game. */
+const EDITION_PATTERNS: RegExp[] = [
+  /\b\d+(st|nd|rd|th) (edition|ed|printing)\b/g,
+  /\b(first|second|third|fourth|fifth|sixth|seventh|revised|deluxe|anniversary|collectors?|kickstarter|retail|standard|english|new|big box) edition\b/g,
+  // Only a generic trailing "board game": "card game" / "dice game" name a
+  // different product ("Catan Card Game" is not "Catan").
+  /\b(the )?board game$/,
+];
+
+/** Trailing store annotations that aren't in parentheses. */
+const STORE_SUFFIX = /(^|\s+)(sealed|used|new|preorder|pre order|damaged box|open box)$/;
+
+function baseNormalize(name: string): string {
+  return name
+    .replace(/[™®©℠]/g, "") // before NFKD, which would expand ™ to "TM"
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // combining diacritics
+    .replace(/\s*[([{][^)\]}]*[)\]}]\s*/g, " ") // (Sealed), [Used], {Promo}
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’`]/g, "") // "Collector's" → "collectors"
+    .trim();
+}
+
+function stripNoise(text: string): string {
+  let out = text.replace(/[^a-z0-9]+/g, " ").trim().replace(STORE_SUFFIX, "");
+  for (const pattern of EDITION_PATTERNS) out = out.replace(pattern, " ").trim();
+  return out.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Normalize a product name into comparable form.
+ * Returns the full normalized name plus its main title and subtitle parts.
+ */
+export function normalizeName(name: string): { full: string; main: string; subtitle: string | null } {
+  const base = baseNormalize(name);
+  const [rawMain, ...rest] = base.split(/\s*[:–—]\s*|\s+-\s+/);
+  const main = stripNoise(rawMain ?? "");
+  const subtitle = rest.length > 0 ? stripNoise(rest.join(" ")) : "";
+
+  return {
+    full: stripNoise(base),
+    main,
+    subtitle: subtitle.length > 0 ? subtitle : null,
+  };
+}
+
+function significantTokens(text: string): Set<string> {
+  return new Set(text.split(" ").filter((t) => t.length > 0 && !STOPWORDS.has(t)));
+}
+
+/** Words that mark a product as an expansion rather than a standalone game. */
+const EXPANSION_PATTERN =
+  /\b(expansion|exp|mini[- ]?expansion|promo( pack)?|add[- ]?on|scenario pack|booster|extension|erweiterung)\b/i;
+
+/**
+ * Heuristic: does this product name look like an expansion SKU?
+ * e.g. "Wingspan: European Expansion", "Catan 5-6 Player Extension".
+ */
+export function looksLikeExpansion(name: string): boolean {
+  return EXPANSION_PATTERN.test(baseNormalize(name));
+}
+
+// ---------------------------------------------------------------------------
+// Similarity primitives
+// ---------------------------------------------------------------------------
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+function editSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - levenshtein(a, b) / longest;
+}
+
+function tokenOverlap(a: Set<string>, b: Set<string>): { jaccard: number; containment: number } {
+  if (a.size === 0 || b.size === 0) return { jaccard: 0, containment: 0 };
+  let shared = 0;
+  for (const t of a) if (b.has(t)) shared++;
+  return {
+    jaccard: shared / (a.size + b.size - shared),
+    containment: shared / Math.min(a.size, b.size),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Scorer
+// ---------------------------------------------------------------------------
+
+const round = (n: number) => Math.round(n * 1000) / 1000;
+
+/**
+ * Score how well a BGG `candidate` name matches a product `query` name.
+ */
+export function scoreName(query: string, candidate: string): NameScoreBreakdown {
+  const q = normalizeName(query);
+  const c = normalizeName(candidate);
+
+  const exact = q.full.length > 0 && q.full === c.full;
+  const { jaccard, containment } = tokenOverlap(significantTokens(q.full), significantTokens(c.full));
+  const edit = editSimilarity(q.full, c.full);
+
+  // Subtitle handling: "Wingspan" vs "Wingspan: European Expansion" share a
+  // main title but are different products, so they score well below exact.
+  let subtitle = 0;
+  if (q.main.length > 0 && q.main === c.main) {
+    if (q.subtitle && c.subtitle) {
+      subtitle = 0.5 + 0.5 * editSimilarity(q.subtitle, c.subtitle);
+    } else if (q.subtitle || c.subtitle) {
+      subtitle = 0.75;
+    } else {
+      subtitle = 1;
+    }
+  }
+
+  const blended = 0.5 * jaccard + 0.3 * edit + 0.2 * containment;
+  const similarity = exact ? 1 : Math.max(blended, subtitle);
+
+  return {
+    normalizedQuery: q.full,
+    normalizedCandidate: c.full,
+    exact,
+    tokenSet: round(jaccard),
+    containment: round(containment),
+    editSimilarity: round(edit),
+    subtitle: round(subtitle),
+    similarity: round(similarity),
+  };
+}
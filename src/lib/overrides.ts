@@ -0,0 +1,55 @@
+/**
+ * Manual objectId → BGG id overrides.
+ *
+ * Some products never match by name (store bundles, promo packs, foreign
+ * editions). An override either pins a Square catalog object to a specific
+ * BGG id, or marks it as "never sync" so the dispatcher skips it.
+ *
+ * Keys:
+ *   override:<square objectId> → Override
+ */
+
+import { getStore } from "./store";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type Override =
+  | { objectId: string; mode: "pin"; bggId: number; note?: string; updatedAt: string }
+  | { objectId: string; mode: "never"; note?: string; updatedAt: string };
+
+const key = (objectId: string) => `override:${objectId}`;
+
+// ---------------------------------------------------------------------------
+// Operations
+// ---------------------------------------------------------------------------
+
+export function getOverride(objectId: string): Promise<Override | null> {
+  return getStore().get<Override>(key(objectId));
+}
+
+export async function setOverride(override: Override): Promise<void> {
+  await getStore().set(key(override.objectId), override);
+}
+
+export function deleteOverride(objectId: string): Promise<void> {
+  return getStore().delete(key(objectId));
+}
+
+export async function listOverrides(): Promise<Override[]> {
+  const store = getStore();
+  const keys = await store.list("override:");
+  const overrides: Override[] = [];
+  for (const k of keys) {
+    const override = await store.get<Override>(k);
+    if (override) overrides.push(override);
+  }
+  return overrides;
+}
+
+/** Object IDs that must never be synced (used by the dispatcher). */
+export async function getNeverSyncIds(): Promise<Set<string>> {
+  const overrides = await listOverrides();
+  return new Set(overrides.filter((o) => o.mode === "never").map((o) => o.objectId));
+}
@@ -0,0 +1,88 @@
+/**
+ * Pending-review store for low-confidence BGG matches.
+ *
+ * When a match falls below the confidence threshold, the child function
+ * parks the item here instead of writing to Square. A reviewer can then
+ * approve the proposed match, pick a different candidate, or reject it
+ * from the dashboard (/review).
+ *
+ * Keys:
+ *   review:<square objectId> → PendingReview
+ */
+
+import { getStore } from "./store";
+import type { ImagePolicy, SquareCatalogItem } from "./square";
+import type { BggThingDetail, ScoredCandidate } from "./bgg";
+import type { FieldSelection } from "./sync-fields";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ReviewStatus = "pending" | "rejected";
+
+export interface PendingReview {
+  objectId: string;
+  status: ReviewStatus;
+  /** Snapshot of the Square item, used to resume the sync after approval */
+  item: SquareCatalogItem;
+  proposed: Pick<BggThingDetail, "bggId" | "name" | "yearPublished" | "imageUrl" | "thumbnailUrl">;
+  confidence: number;
+  reason: string;
+  searchName: string;
+  /** Winner first, then the rejected candidates */
+  candidates: (ScoredCandidate & { rejectedBecause?: string })[];
+  /** What the parked run would have written – the resumed sync writes the same */
+  fields?: FieldSelection;
+  imagePolicy?: ImagePolicy;
+  /** ISO timestamps */
+  createdAt: string;
+  updatedAt: string;
+}
+
+const key = (objectId: string) => `review:${objectId}`;
+
+// ---------------------------------------------------------------------------
+// Operations
+// ---------------------------------------------------------------------------
+
+export function getReview(objectId: string): Promise<PendingReview | null> {
+  return getStore().get<PendingReview>(key(objectId));
+}
+
+export async function saveReview(
+  review: Omit<PendingReview, "status" | "createdAt" | "updatedAt">
+): Promise<void> {
+  const now = new Date().toISOString();
+  const existing = await getReview(review.objectId);
+  await getStore().set<PendingReview>(key(review.objectId), {
+    ...review,
+    status: "pending",
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  });
+}
+
+export async function markReviewRejected(objectId: string): Promise<PendingReview | null> {
+  const existing = await getReview(objectId);
+  if (!existing) return null;
+  const updated: PendingReview = { ...existing, status: "rejected", updatedAt: new Date().toISOString() };
+  await getStore().set(key(objectId), updated);
+  return updated;
+}
+
+export function deleteReview(objectId: string): Promise<void> {
+  return getStore().delete(key(objectId));
+}
+
+/** List reviews, oldest first. Defaults to pending ones only. */
+export async function listReviews(status: ReviewStatus = "pending"): Promise<PendingReview[]> {
+  const store = getStore();
+  const keys = await store.list("review:");
+  const reviews: PendingReview[] = [];
+  for (const k of keys) {
+    const review = await store.get<PendingReview>(k);
+    if (review?.status === status) reviews.push(review);
+  }
+  return reviews.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
@@ -0,0 +1,312 @@
+/**
+ * Sync run history: one record per dispatcher run plus each item's outcome.
+ *
+ * The dispatcher claims the run before fetching the catalog – only one run
+ * may be in progress at a time – and records how many items it fans out.
+ * Every child records its outcome and bumps the run's finished counter; the
+ * child that brings the counter to the total closes the run (totals by
+ * status) and emits `sync/run.completed`. A run that completes with no
+ * failed items advances the incremental high-water mark it was given.
+ *
+ * Keys:
+ *   run:<runId>                  → SyncRun
+ *   run-item:<runId>:<objectId>  → RunItemOutcome
+ *   run-desc:<runId>:<objectId>  → RunDescriptionResult (batched description writes)
+ *   run-finished:<runId>         → number of items that recorded an outcome
+ *
+ * Env vars:
+ *   RUN_HISTORY_DAYS     – how long runs and their item outcomes are kept (default: 30)
+ *   SYNC_STALE_RUN_HOURS – a run still "running" after this long no longer blocks new runs (default: 12)
+ */
+
+import { getStore } from "./store";
+import { advanceHighWaterMark } from "./sync-state";
+import type { ImagePolicy } from "./square";
+import type { SquareErrorReport } from "./square-call";
+import type { FieldSelection } from "./sync-fields";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RunItemStatus =
+  | "synced"
+  | "no_match"
+  | "dry_run"
+  | "pending_review"
+  | "skipped_override"
+  | "review_rejected"
+  | "square_error"
+  /** The child threw until it ran out of retries */
+  | "failed";
+
+/** What the run was asked to do (the trigger's options, resolved). */
+export interface RunParams {
+  /** Started from the dashboard / API, or by the cron schedule */
+  trigger: "manual" | "schedule";
+  force: boolean;
+  filterName: string | null;
+  dryRun: boolean;
+  incremental: boolean;
+  /** Only items changed since this timestamp were fetched */
+  since: string | null;
+  imagePolicy: ImagePolicy;
+  /** Fields written and their overwrite policy (see sync-fields.ts) */
+  fields: FieldSelection;
+  confidenceThreshold: number | null;
+}
+
+export interface SyncRun {
+  runId: string;
+  /** "failed" means the dispatcher itself failed; item failures are in `counts` */
+  status: "running" | "completed" | "failed";
+  params: RunParams;
+  /** ISO timestamps */
+  startedAt: string;
+  /** When the items were fanned out (null while the catalog is being fetched) */
+  dispatchedAt: string | null;
+  completedAt: string | null;
+  /** Items dispatched to children */
+  totalItems: number;
+  /** Scan start to record as the high-water mark if the run completes with no failed items (null: the run can't advance it) */
+  highWaterMark: string | null;
+  /** Why the dispatcher failed */
+  error: string | null;
+  /** Items per outcome, filled in when the run completes */
+  counts: Partial<Record<RunItemStatus, number>>;
+}
+
+export interface RunItemOutcome {
+  objectId: string;
+  /** Square item name */
+  name: string;
+  status: RunItemStatus;
+  /** ISO timestamps */
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  bggId: number | null;
+  confidence: number | null;
+  /** Matched below the run's confidence threshold */
+  lowConfidence: boolean;
+  /** The matched BGG thing */
+  bggName: string | null;
+  bggYear: number | null;
+  thumbnailUrl: string | null;
+  /** Query that produced the match (UPC-resolved title or Square name) */
+  searchName: string | null;
+  /** Why the matcher picked it */
+  matchReason: string | null;
+  imageObjectId: string | null;
+  imageRejected: string | null;
+  /** Square URL of the item's primary image before the upload */
+  imageBefore: string | null;
+  /** BGG image uploaded (or, in a dry run, proposed) */
+  imageAfter: string | null;
+  descriptionUpdated: boolean;
+  /** Handed to the batched description writer – see `description` on read */
+  descriptionQueued: boolean;
+  /** The item's description before an overwrite (null if it had none) */
+  descriptionBefore: string | null;
+  /** Description written (or, in a dry run, proposed) */
+  descriptionAfter: string | null;
+  /** The item already had a description, which `descriptionAfter` overwrote */
+  descriptionReplaced: boolean;
+  /** Failure reason for "failed" and "square_error" items */
+  error: string | null;
+  failedStep: string | null;
+  squareError: SquareErrorReport | null;
+}
+
+/** Outcome of a batched description write, recorded by the aggregator. */
+export interface RunDescriptionResult {
+  status: "updated" | "unchanged" | "failed";
+  error: SquareErrorReport | null;
+  writtenAt: string;
+}
+
+const runKey = (runId: string) => `run:${runId}`;
+const itemKey = (runId: string, objectId: string) => `run-item:${runId}:${objectId}`;
+const descKey = (runId: string, objectId: string) => `run-desc:${runId}:${objectId}`;
+const finishedKey = (runId: string) => `run-finished:${runId}`;
+
+/** TTL for everything kept per run, including other modules' per-run stats. */
+export function runRetention() {
+  const days = Number(process.env.RUN_HISTORY_DAYS) || 30;
+  return { ttlSeconds: days * 24 * 60 * 60 };
+}
+
+export function getStaleRunMs(): number {
+  return (Number(process.env.SYNC_STALE_RUN_HOURS) || 12) * 60 * 60 * 1000;
+}
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+/**
+ * Open `runId` unless another run is still in progress. Returns the run in
+ * the way, or null once the claim succeeded. Not atomic by itself: callers
+ * serialize claims (the dispatcher runs with a concurrency limit of 1).
+ */
+export async function claimRun(runId: string, params: RunParams, staleAfterMs: number): Promise<SyncRun | null> {
+  if (await getRun(runId)) return null;
+
+  const inProgress = await getRunInProgress(staleAfterMs);
+  if (inProgress) return inProgress;
+
+  const run: SyncRun = {
+    runId,
+    status: "running",
+    params,
+    startedAt: new Date().toISOString(),
+    dispatchedAt: null,
+    completedAt: null,
+    totalItems: 0,
+    highWaterMark: null,
+    error: null,
+    counts: {},
+  };
+  await getStore().set(runKey(runId), run, runRetention());
+  return null;
+}
+
+/** Items that ended like this were not synced, so the run mustn't advance the high-water mark. */
+const FAILED_STATUSES: RunItemStatus[] = ["failed", "square_error"];
+
+/** Record the fan-out. A run with nothing to dispatch is completed straight away. */
+export async function markRunDispatched(
+  runId: string,
+  totalItems: number,
+  since: string | null,
+  highWaterMark: string | null
+): Promise<SyncRun> {
+  const run = await getRun(runId);
+  if (!run) throw new Error(`[Store] Run ${runId} was never claimed`);
+
+  const now = new Date().toISOString();
+  const dispatched: SyncRun = {
+    ...run,
+    params: { ...run.params, since },
+    status: totalItems === 0 ? "completed" : "running",
+    dispatchedAt: now,
+    completedAt: totalItems === 0 ? now : null,
+    totalItems,
+    highWaterMark,
+  };
+  await getStore().set(runKey(runId), dispatched, runRetention());
+  if (dispatched.status === "completed") await recordHighWaterMark(dispatched);
+  return dispatched;
+}
+
+/** The dispatcher gave up or was cancelled – release the run so the next one can start. */
+export async function failRun(runId: string, error: string): Promise<void> {
+  const run = await getRun(runId);
+  if (run?.status !== "running") return;
+  await getStore().set<SyncRun>(
+    runKey(runId),
+    { ...run, status: "failed", completedAt: new Date().toISOString(), error },
+    runRetention()
+  );
+}
+
+/**
+ * Record one item's outcome. Returns the completed run if this was the
+ * last item to finish, otherwise null. Recording the same item again
+ * (a replayed step) overwrites the outcome without counting it twice.
+ */
+export async function recordItemOutcome(runId: string, outcome: RunItemOutcome): Promise<SyncRun | null> {
+  const store = getStore();
+  const seen = await store.get<RunItemOutcome>(itemKey(runId, outcome.objectId));
+  await store.set(itemKey(runId, outcome.objectId), outcome, runRetention());
+  if (seen) return null;
+
+  const finished = await store.incr(finishedKey(runId), 1, runRetention());
+  const run = await getRun(runId);
+  if (!run || run.status !== "running" || finished !== run.totalItems) return null;
+  return completeRun(runId);
+}
+
+/** Close a run with totals by outcome. */
+export async function completeRun(runId: string): Promise<SyncRun | null> {
+  const run = await getRun(runId);
+  if (!run) return null;
+
+  const counts: SyncRun["counts"] = {};
+  for (const item of await getRunItems(runId)) {
+    counts[item.status] = (counts[item.status] ?? 0) + 1;
+  }
+
+  const completed: SyncRun = { ...run, status: "completed", completedAt: new Date().toISOString(), counts };
+  await getStore().set(runKey(runId), completed, runRetention());
+  await recordHighWaterMark(completed);
+  return completed;
+}
+
+async function recordHighWaterMark(run: SyncRun): Promise<void> {
+  if (!run.highWaterMark) return;
+  if (FAILED_STATUSES.some((status) => run.counts[status])) return;
+  await advanceHighWaterMark({
+    since: run.highWaterMark,
+    runId: run.runId,
+    recordedAt: run.completedAt ?? new Date().toISOString(),
+  });
+}
+
+export async function recordDescriptionResult(
+  runId: string,
+  objectId: string,
+  result: Omit<RunDescriptionResult, "writtenAt">
+): Promise<void> {
+  await getStore().set<RunDescriptionResult>(
+    descKey(runId, objectId),
+    { ...result, writtenAt: new Date().toISOString() },
+    runRetention()
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Reading
+// ---------------------------------------------------------------------------
+
+export function getRun(runId: string): Promise<SyncRun | null> {
+  return getStore().get<SyncRun>(runKey(runId));
+}
+
+/** Runs, newest first. */
+export async function listRuns(limit = 50): Promise<SyncRun[]> {
+  const store = getStore();
+  const runs: SyncRun[] = [];
+  for (const k of await store.list("run:")) {
+    const run = await store.get<SyncRun>(k);
+    if (run) runs.push(run);
+  }
+  return runs.sort((a, b) => b.startedAt.localeCompare(a.startedAt)).slice(0, limit);
+}
+
+/**
+ * The newest run still waiting on items, if any. Runs older than
+ * `staleAfterMs` are ignored, so one lost child can't block syncs forever.
+ */
+export async function getRunInProgress(staleAfterMs: number): Promise<SyncRun | null> {
+  const cutoff = Date.now() - staleAfterMs;
+  const runs = await listRuns(Infinity);
+  return runs.find((run) => run.status === "running" && Date.parse(run.startedAt) > cutoff) ?? null;
+}
+
+/** Every recorded item outcome of a run, with batched description results merged in. */
+export async function getRunItems(
+  runId: string
+): Promise<(RunItemOutcome & { description: RunDescriptionResult | null })[]> {
+  const store = getStore();
+  const items: (RunItemOutcome & { description: RunDescriptionResult | null })[] = [];
+  for (const k of await store.list(`run-item:${runId}:`)) {
+    const item = await store.get<RunItemOutcome>(k);
+    if (!item) continue;
+    const description = item.descriptionQueued
+      ? await store.get<RunDescriptionResult>(descKey(runId, item.objectId))
+      : null;
+    items.push({ ...item, description });
+  }
+  return items.sort((a, b) => a.finishedAt.localeCompare(b.finishedAt));
+}
@@ -0,0 +1,85 @@
+/**
+ * Scheduled (cron) syncs.
+ *
+ * The cron expression is fixed at deploy time – Inngest registers it with
+ * the function – so it comes from an env var. Whether ticks actually start
+ * a sync, and with which options, is kept in the store and edited from the
+ * dashboard (/schedule).
+ *
+ * Keys:
+ *   config:schedule → ScheduleConfig
+ *
+ * Env vars:
+ *   SYNC_SCHEDULE_CRON – cron expression, optionally "TZ=Zone/Name …" prefixed (default: "TZ=UTC 0 3 * * *", nightly)
+ */
+
+import { getStore } from "./store";
+import { IMAGE_POLICIES, ImagePolicy } from "./square";
+import { DEFAULT_FIELDS, FieldSelection, validateFieldSelection } from "./sync-fields";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Options each scheduled tick passes to `sync/images.requested`. */
+export interface ScheduledSyncOptions {
+  incremental: boolean;
+  force: boolean;
+  dryRun: boolean;
+  imagePolicy: ImagePolicy;
+  fields: FieldSelection;
+}
+
+export interface ScheduleConfig {
+  paused: boolean;
+  options: ScheduledSyncOptions;
+  /** ISO timestamp of the last dashboard change */
+  updatedAt?: string;
+}
+
+export const DEFAULT_SCHEDULE: ScheduleConfig = {
+  paused: false,
+  options: { incremental: true, force: false, dryRun: false, imagePolicy: "skip", fields: DEFAULT_FIELDS },
+};
+
+const KEY = "config:schedule";
+
+export function getSyncCron(): string {
+  return process.env.SYNC_SCHEDULE_CRON || "TZ=UTC 0 3 * * *";
+}
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+export async function getScheduleConfig(): Promise<ScheduleConfig> {
+  const stored = await getStore().get<ScheduleConfig>(KEY);
+  return {
+    ...DEFAULT_SCHEDULE,
+    ...stored,
+    options: { ...DEFAULT_SCHEDULE.options, ...stored?.options },
+  };
+}
+
+export async function setScheduleConfig(config: ScheduleConfig): Promise<ScheduleConfig> {
+  const saved = { ...config, updatedAt: new Date().toISOString() };
+  await getStore().set(KEY, saved);
+  return saved;
+}
+
+/** Check a config from the dashboard / API; returns an error message or null. */
+export function validateScheduleConfig(config: any): string | null {
+  if (!config || typeof config !== "object") return "config must be an object";
+  if (typeof config.paused !== "boolean") return "paused must be a boolean";
+  const options = config.options;
+  if (!options || typeof options !== "object") return "options must be an object";
+  for (const field of ["incremental", "force", "dryRun"]) {
+    if (typeof options[field] !== "boolean") return `options.${field} must be a boolean`;
+  }
+  if (!IMAGE_POLICIES.includes(options.imagePolicy)) {
+    return `options.imagePolicy must be one of: ${IMAGE_POLICIES.join(", ")}`;
+  }
+  const fieldsError = validateFieldSelection(options.fields);
+  if (fieldsError) return `options.${fieldsError}`;
+  return null;
+}
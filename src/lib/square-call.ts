@@ -0,0 +1,169 @@
+/**
+ * Square call wrapper: classified errors, backoff and version-conflict retries.
+ *
+ * Every Square API call goes through `squareCall`, which retries throttling
+ * (429, honoring Retry-After), 5xx and network failures with exponential
+ * backoff, and turns everything else into a `SquareCallError` whose `kind`
+ * says what went wrong – so a run report can tell "Square throttled" from
+ * "item deleted" from "permission missing".
+ *
+ * Read-then-write sequences go through `withVersionRetry`, which re-runs
+ * the whole read + upsert when Square rejects it with VERSION_MISMATCH
+ * because someone edited the item in between.
+ *
+ * Env vars:
+ *   SQUARE_MAX_RETRIES – retries for throttled / 5xx / network failures (default: 5)
+ */
+
+import { ApiError } from "square";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SquareErrorKind =
+  | "rate_limited"
+  | "server_error"
+  | "network"
+  | "version_conflict"
+  | "not_found"
+  | "permission_denied"
+  | "unauthorized"
+  | "bad_request"
+  | "unknown";
+
+/** Kinds worth retrying as-is (after a pause). */
+const TRANSIENT_KINDS: SquareErrorKind[] = ["rate_limited", "server_error", "network"];
+
+/** Plain-object form of a SquareCallError, for step results and run reports. */
+export interface SquareErrorReport {
+  kind: SquareErrorKind;
+  operation: string;
+  statusCode: number | null;
+  /** First Square error code, e.g. "VERSION_MISMATCH", "INSUFFICIENT_SCOPES" */
+  code: string | null;
+  message: string;
+}
+
+export class SquareCallError extends Error {
+  constructor(
+    readonly kind: SquareErrorKind,
+    readonly operation: string,
+    readonly statusCode: number | null,
+    readonly code: string | null,
+    detail: string,
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(`[Square] ${operation} failed (${kind}${code ? `, ${code}` : ""}): ${detail}`);
+    this.name = "SquareCallError";
+  }
+
+  get transient(): boolean {
+    return TRANSIENT_KINDS.includes(this.kind);
+  }
+
+  toReport(): SquareErrorReport {
+    return {
+      kind: this.kind,
+      operation: this.operation,
+      statusCode: this.statusCode,
+      code: this.code,
+      message: this.message,
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Classification
+// ---------------------------------------------------------------------------
+
+function parseRetryAfter(header: string | undefined): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1_000 : Date.parse(header) - Date.now();
+  return Number.isFinite(ms) && ms > 0 ? ms : null;
+}
+
+/** Turn anything a Square SDK call threw into a SquareCallError. */
+export function classifySquareError(err: unknown, operation: string): SquareCallError {
+  if (err instanceof SquareCallError) return err;
+
+  if (err instanceof ApiError) {
+    const status = err.statusCode;
+    const first = err.errors?.[0];
+    const code = first?.code ?? null;
+    const detail = first?.detail ?? err.message;
+    const codes = (err.errors ?? []).map((e) => e.code);
+
+    let kind: SquareErrorKind;
+    if (status === 429 || codes.includes("RATE_LIMITED")) kind = "rate_limited";
+    else if (codes.includes("VERSION_MISMATCH") || status === 409) kind = "version_conflict";
+    else if (status === 404 || codes.includes("NOT_FOUND")) kind = "not_found";
+    else if (status === 403 || codes.includes("INSUFFICIENT_SCOPES") || codes.includes("FORBIDDEN")) {
+      kind = "permission_denied";
+    } else if (status === 401) kind = "unauthorized";
+    else if (status >= 500) kind = "server_error";
+    else if (status >= 400) kind = "bad_request";
+    else kind = "unknown";
+
+    const headers = (err.headers ?? {}) as Record<string, string>;
+    return new SquareCallError(kind, operation, status, code, detail, parseRetryAfter(headers["retry-after"]));
+  }
+
+  // No HTTP response at all – connection reset, DNS, timeout
+  const message = err instanceof Error ? err.message : String(err);
+  const code = (err as any)?.code;
+  const isNetwork =
+    typeof code === "string" && /^(ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|EPIPE|UND_ERR)/.test(code);
+  return new SquareCallError(isNetwork ? "network" : "unknown", operation, null, code ?? null, message);
+}
+
+// ---------------------------------------------------------------------------
+// Wrappers
+// ---------------------------------------------------------------------------
+
+const BASE_DELAY_MS = 1_000;
+const MAX_DELAY_MS = 30_000;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run one Square API call, retrying throttling / 5xx / network failures
+ * with backoff. `fn` must build any request body (and file stream) itself,
+ * since it may be called more than once.
+ */
+export async function squareCall<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+  const maxRetries = Number(process.env.SQUARE_MAX_RETRIES) || 5;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (raw) {
+      const err = classifySquareError(raw, operation);
+      if (!err.transient || attempt >= maxRetries) throw err;
+
+      const backoff = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt) + Math.random() * 500;
+      const delay = Math.max(err.retryAfterMs ?? 0, backoff);
+      console.warn(`[Square] ${operation}: ${err.kind}, retrying in ${Math.round(delay)}ms (${attempt + 1}/${maxRetries})`);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Run a read-then-write sequence, starting over from the read when the
+ * write loses a VERSION_MISMATCH race against a concurrent edit.
+ */
+export async function withVersionRetry<T>(operation: string, fn: () => Promise<T>, maxAttempts = 3): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (raw) {
+      const err = classifySquareError(raw, operation);
+      if (err.kind !== "version_conflict" || attempt >= maxAttempts) throw err;
+      console.warn(`[Square] ${operation}: item changed concurrently, re-reading (attempt ${attempt + 1}/${maxAttempts})`);
+    }
+  }
+}
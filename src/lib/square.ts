@@ -4,10 +4,27 @@
  * Required env vars:
  *   SQUARE_ACCESS_TOKEN   – your Square OAuth / personal access token
  *   SQUARE_ENVIRONMENT    – "sandbox" | "production"
+ *
+ * Optional env vars:
+ *   SQUARE_BGG_ATTRIBUTE_KEY – key of the item custom attribute holding the BGG id (default: "bgg_id")
  */
 
-import { Client, Environment, FileWrapper } from "square";
+import { CatalogObject, Client, Environment, FileWrapper } from "square";
+import { createHash } from "crypto";
 import { Readable } from "stream";
+import { collectHintCandidates, HintCandidates, resolveHints, ResolvedHints } from "./item-hints";
+import { parseBarcode } from "./gtin";
+import { processImageForSquare } from "./image-processing";
+import { deleteImageMarker, getImageMarker, ImageMarker, setImageMarker } from "./image-markers";
+import { classifySquareError, squareCall, SquareCallError, SquareErrorReport, withVersionRetry } from "./square-call";
+import {
+  CategoryDecision,
+  CategoryInfo,
+  CategorySelectionConfig,
+  getCategorySelectionConfig,
+  resolveCategories,
+  selectItem,
+} from "./category-selection";
 
 // ---------------------------------------------------------------------------
 // Client singleton
@@ -43,126 +60,229 @@ export interface SquareCatalogItem {
   hasImage: boolean;
   /** Whether the item already has a description */
   hasDescription: boolean;
-  /** Optional metadata extracted from custom attributes */
+  /** Optional metadata extracted from custom attributes and variations */
   meta: {
     year?: number;
     publisher?: string;
+    /** Canonical GTIN-13/14 of the first valid variation barcode (see gtin.ts) */
     upc?: string;
+    /** A barcode that failed validation, with the reason – not used for lookups */
+    invalidUpc?: { raw: string; problem: string };
+    /** BGG id recorded on the item by a previous sync (authoritative match) */
+    bggId?: number;
+    /** Where `year` / `publisher` came from (see item-hints.ts) */
+    hintSources?: ResolvedHints["sources"];
   };
   /** Category IDs this item belongs to */
   categoryIds: string[];
 }
 
 // ---------------------------------------------------------------------------
-// Category discovery
+// BGG id custom attribute
 // ---------------------------------------------------------------------------
 
-/** Keywords that identify board / card game categories (case-insensitive). */
-const GAME_CATEGORY_KEYWORDS = [
-  "board game",
-  "card game",
-  "board games",
-  "card games",
-  "tabletop",
-  "table top",
-  "games",
-];
+function getBggIdAttributeKey(): string {
+  return process.env.SQUARE_BGG_ATTRIBUTE_KEY ?? "bgg_id";
+}
+
+/** Read the BGG id custom attribute from a catalog object, if present. */
+function readBggIdAttribute(obj: CatalogObject): number | undefined {
+  const value = obj.customAttributeValues?.[getBggIdAttributeKey()];
+  const raw = value?.stringValue ?? value?.numberValue;
+  const bggId = raw ? Number(raw) : NaN;
+  return Number.isInteger(bggId) && bggId > 0 ? bggId : undefined;
+}
+
+let _bggIdDefinition: Promise<void> | null = null;
 
 /**
- * Fetch all CATEGORY objects from Square and return a Map of id → name
- * for categories whose name matches board / card game keywords.
+ * Create the item custom attribute definition for the BGG id if it doesn't
+ * exist yet. Memoized per process; a failed attempt is retried next call.
  */
-async function fetchGameCategoryIds(): Promise<Map<string, string>> {
+function ensureBggIdAttributeDefinition(): Promise<void> {
+  if (_bggIdDefinition) return _bggIdDefinition;
+
+  _bggIdDefinition = (async () => {
+    const client = getSquareClient();
+    const key = getBggIdAttributeKey();
+    let cursor: string | undefined;
+
+    do {
+      const { result } = await squareCall("listCatalog (attribute definitions)", () =>
+        client.catalogApi.listCatalog(cursor, "CUSTOM_ATTRIBUTE_DEFINITION")
+      );
+      if ((result.objects ?? []).some((o) => o.customAttributeDefinitionData?.key === key)) return;
+      cursor = result.cursor ?? undefined;
+    } while (cursor);
+
+    console.log(`[Square] Creating custom attribute definition "${key}"`);
+    await squareCall("upsertCatalogObject (attribute definition)", () =>
+      client.catalogApi.upsertCatalogObject({
+        idempotencyKey: `bgg-attr-def-${key}`,
+        object: {
+          type: "CUSTOM_ATTRIBUTE_DEFINITION",
+          id: `#${key}`,
+          customAttributeDefinitionData: {
+            type: "STRING",
+            name: "BoardGameGeek ID",
+            description: "BGG thing id this item's image and description were imported from.",
+            key,
+            allowedObjectTypes: ["ITEM"],
+            sellerVisibility: "SELLER_VISIBILITY_READ_WRITE_VALUES",
+            appVisibility: "APP_VISIBILITY_READ_ONLY",
+          },
+        },
+      })
+    );
+  })().catch((err) => {
+    _bggIdDefinition = null;
+    throw err;
+  });
+
+  return _bggIdDefinition;
+}
+
+// ---------------------------------------------------------------------------
+// Category discovery
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetch all CATEGORY objects from Square and decide which ones are part of
+ * the sync, using the stored category selection config.
+ */
+export async function fetchCategorySelection(): Promise<{
+  config: CategorySelectionConfig;
+  decisions: Map<string, CategoryDecision>;
+}> {
   const client = getSquareClient();
-  const gameCategories = new Map<string, string>();
+  const categories: CategoryInfo[] = [];
   let cursor: string | undefined;
 
   do {
-    const { result } = await client.catalogApi.listCatalog(cursor, "CATEGORY");
+    const { result } = await squareCall("listCatalog (categories)", () =>
+      client.catalogApi.listCatalog(cursor, "CATEGORY")
+    );
 
     for (const obj of result.objects ?? []) {
-      const name = obj.categoryData?.name ?? "";
-      const nameLower = name.toLowerCase();
-
-      if (GAME_CATEGORY_KEYWORDS.some((kw) => nameLower.includes(kw))) {
-        gameCategories.set(obj.id!, name);
-      }
+      categories.push({
+        id: obj.id!,
+        name: obj.categoryData?.name ?? "",
+        parentId: obj.categoryData?.parentCategory?.id ?? null,
+      });
     }
 
     cursor = result.cursor ?? undefined;
   } while (cursor);
 
-  return gameCategories;
+  const config = await getCategorySelectionConfig();
+  return { config, decisions: resolveCategories(categories, config) };
+}
+
+// ---------------------------------------------------------------------------
+// Variation barcodes
+// ---------------------------------------------------------------------------
+
+/**
+ * First valid barcode across the item's variations, normalized to its
+ * canonical GTIN. The first invalid one is reported when no valid one exists.
+ */
+export function pickVariationBarcode(obj: CatalogObject): {
+  upc?: string;
+  invalidUpc?: { raw: string; problem: string };
+} {
+  let invalidUpc: { raw: string; problem: string } | undefined;
+
+  for (const variation of obj.itemData?.variations ?? []) {
+    const raw = variation.itemVariationData?.upc;
+    if (!raw?.trim()) continue;
+
+    const parsed = parseBarcode(raw);
+    if (parsed.valid) return { upc: parsed.gtin };
+    invalidUpc ??= { raw: parsed.raw, problem: parsed.problem };
+  }
+
+  return { invalidUpc };
 }
 
 // ---------------------------------------------------------------------------
 // List catalog items (board & card games with UPCs only)
 // ---------------------------------------------------------------------------
 
+export interface ListCatalogOptions {
+  /**
+   * RFC 3339 timestamp. When set, only items created or changed since then
+   * are fetched (searchCatalogObjects `beginTime`) instead of the whole catalog.
+   */
+  since?: string;
+}
+
 /**
  * Retrieve catalog items that belong to board / card game categories.
  * If an item has a UPC barcode it will be used for more accurate BGG
  * matching, but items without a UPC are still included (name-based search).
  */
-export async function listCatalogItems(): Promise<SquareCatalogItem[]> {
+export async function listCatalogItems(options: ListCatalogOptions = {}): Promise<SquareCatalogItem[]> {
   const client = getSquareClient();
 
-  // 1. Discover which category IDs are board / card game categories
-  const gameCats = await fetchGameCategoryIds();
+  // 1. Decide which categories are part of the sync (see category-selection.ts)
+  const { config, decisions } = await fetchCategorySelection();
+  const gameCats = [...decisions.values()].filter((d) => d.selected);
   console.log(
-    `[Square] Found ${gameCats.size} game categories: ${[...gameCats.values()].join(", ") || "(none)"}`
+    `[Square] Found ${gameCats.length} game categories: ${gameCats.map((c) => c.name).join(", ") || "(none)"}`
   );
 
-  if (gameCats.size === 0) {
+  if (gameCats.length === 0) {
     console.warn(
-      "[Square] No board/card game categories found. " +
-        "Make sure your Square catalog has categories with names containing: " +
-        GAME_CATEGORY_KEYWORDS.join(", ")
+      "[Square] No board/card game categories selected. " +
+        "Check the category selection on the dashboard (/categories)."
     );
     return [];
   }
 
-  // 2. Paginate through all ITEM objects
+  // 2. Paginate through all ITEM objects (or only those changed since `options.since`)
   const items: SquareCatalogItem[] = [];
+  const hintCandidates = new Map<string, HintCandidates>();
   let cursor: string | undefined;
   let withUpc = 0;
   let withoutUpc = 0;
+  let withInvalidUpc = 0;
+  let optedOut = 0;
 
   do {
-    const { result } = await client.catalogApi.listCatalog(cursor, "ITEM");
+    const { result } = options.since
+      ? await squareCall("searchCatalogObjects (changed items)", () =>
+          client.catalogApi.searchCatalogObjects({
+            objectTypes: ["ITEM"],
+            beginTime: options.since,
+            cursor,
+          })
+        )
+      : await squareCall("listCatalog (items)", () => client.catalogApi.listCatalog(cursor, "ITEM"));
 
     for (const obj of result.objects ?? []) {
       const itemData = obj.itemData;
       if (!itemData) continue;
 
-      // Collect all category IDs for this item
-      const catIds: string[] = [];
-      if (itemData.categoryId) catIds.push(itemData.categoryId);
-      if ((itemData as any).categories) {
-        for (const c of (itemData as any).categories) {
-          if (c.id) catIds.push(c.id);
-        }
+      // Only include items in a selected category that haven't opted out
+      const selection = selectItem(obj, decisions, config);
+      if (!selection.selected) {
+        if (selection.reason === "opted-out") optedOut++;
+        continue;
       }
+      const catIds = selection.categoryIds;
 
-      // Only include items in a game category
-      const isGame = catIds.some((id) => gameCats.has(id));
-      if (!isGame) continue;
-
-      // Try to extract a UPC from any variation (optional — helps matching)
-      let upc: string | undefined;
-      for (const variation of itemData.variations ?? []) {
-        const varUpc = variation.itemVariationData?.upc;
-        if (varUpc) {
-          upc = varUpc;
-          break;
-        }
-      }
+      // Try to extract a valid UPC from any variation (optional — helps matching)
+      const { upc, invalidUpc } = pickVariationBarcode(obj);
 
       if (upc) {
         withUpc++;
       } else {
         withoutUpc++;
       }
+      if (invalidUpc) {
+        withInvalidUpc++;
+        console.warn(`[Square] Invalid UPC "${invalidUpc.raw}" on "${itemData.name}" (${invalidUpc.problem})`);
+      }
 
       const hasImage = (obj.itemData?.imageIds?.length ?? 0) > 0;
       const desc = itemData.descriptionHtml ?? itemData.description ?? "";
@@ -173,72 +293,290 @@ export async function listCatalogItems(): Promise<SquareCatalogItem[]> {
         name: itemData.name ?? "",
         hasImage,
         hasDescription,
-        meta: { upc },
+        meta: { upc, invalidUpc, bggId: readBggIdAttribute(obj) },
         categoryIds: catIds,
       });
+      hintCandidates.set(obj.id!, collectHintCandidates(obj));
     }
 
     cursor = result.cursor ?? undefined;
   } while (cursor);
 
+  // 3. Resolve year / publisher hints
+  let withYear = 0;
+  let withPublisher = 0;
+  for (const item of items) {
+    const hints = resolveHints(hintCandidates.get(item.objectId)!);
+    item.meta.year = hints.year;
+    item.meta.publisher = hints.publisher;
+    item.meta.hintSources = hints.sources;
+    if (hints.year) withYear++;
+    if (hints.publisher) withPublisher++;
+  }
+
   console.log(
-    `[Square] ${items.length} game items found (${withUpc} with UPC, ${withoutUpc} name-only)`
+    `[Square] ${items.length} game items found${options.since ? ` changed since ${options.since}` : ""} ` +
+      `(${withUpc} with UPC, ${withoutUpc} name-only, ` +
+      `${withInvalidUpc} with an invalid UPC, ${optedOut} opted out, ` +
+      `${withYear} with year hint, ${withPublisher} with publisher hint)`
   );
   return items;
 }
 
+// ---------------------------------------------------------------------------
+// Idempotency keys
+// ---------------------------------------------------------------------------
+
+/**
+ * Deterministic idempotency key: the same logical write (run, object, BGG
+ * id, source…) always gets the same key, so a step retried after Square
+ * already succeeded is answered from Square's idempotency cache instead of
+ * writing twice. Hashed to stay under Square's 128-character limit.
+ */
+export function idempotencyKey(kind: string, ...parts: (string | number | bigint | null | undefined)[]): string {
+  const hash = createHash("sha256")
+    .update(parts.map((p) => String(p ?? "")).join("|"))
+    .digest("hex")
+    .slice(0, 40);
+  return `bgg-${kind}-${hash}`;
+}
+
 // ---------------------------------------------------------------------------
 // Upload image to a catalog item
 // ---------------------------------------------------------------------------
 
 /**
  * Download the image from `imageUrl` and attach it to the Square catalog
- * item identified by `catalogObjectId`.
+ * item identified by `catalogObjectId`. The bytes go through
+ * `processImageForSquare` first (format, size and placeholder checks).
+ *
+ * Safe to retry: if the item already has an image we imported from the same
+ * URL it is returned instead (`reused`), and the upload's idempotency key is
+ * derived from the run, item, BGG id and URL.
  */
 export async function uploadImageToSquareItem(
   catalogObjectId: string,
   imageUrl: string,
-  imageName: string
-): Promise<{ imageObjectId: string }> {
+  imageName: string,
+  options: { bggId?: number; runId?: string } = {}
+): Promise<{ imageObjectId: string; reused: boolean; previousImageUrl: string | null }> {
   const client = getSquareClient();
 
+  // 0. Already uploaded from this source (e.g. a retry after Square succeeded)?
+  const images = await getItemImages(catalogObjectId);
+  const alreadyThere = images.find((img) => img.marker?.sourceUrl === imageUrl);
+  // The item's primary image before this upload, for run reports
+  const previousImageUrl = images.find((img) => img.id !== alreadyThere?.id)?.url ?? null;
+  if (alreadyThere) {
+    console.log(`[Square] ${catalogObjectId} already has image ${alreadyThere.id} from ${imageUrl} – reusing it`);
+    return { imageObjectId: alreadyThere.id, reused: true, previousImageUrl };
+  }
+
   // 1. Download the image bytes from BGG
   const imgRes = await fetch(imageUrl);
   if (!imgRes.ok) {
     throw new Error(`Failed to download image: ${imgRes.status} ${imgRes.statusText}`);
   }
   const arrayBuffer = await imgRes.arrayBuffer();
-  const buffer = Buffer.from(arrayBuffer);
 
-  // 2. Build the multipart request
+  // 2. Sniff, validate, convert and shrink (throws ImageRejectedError for unusable images)
+  const processed = await processImageForSquare(Buffer.from(arrayBuffer), imageUrl);
+  if (processed.steps.length > 0) {
+    console.log(`[Square] Processed image for ${catalogObjectId}: ${processed.steps.join(", ")}`);
+  }
+
+  // 3. Build the multipart request
   //    Square's Node SDK requires a FileWrapper (from @apimatic/core)
   //    wrapping a Node Readable stream – a plain Blob won't carry auth.
-  const readable = Readable.from(buffer);
-  const file = new FileWrapper(readable, {
-    contentType: "image/jpeg",
-    filename: `${imageName.replace(/[^a-zA-Z0-9_-]/g, "_")}.jpg`,
-  });
-
-  const { result } = await client.catalogApi.createCatalogImage(
-    {
-      idempotencyKey: `bgg-sync-${catalogObjectId}-${Date.now()}`,
-      objectId: catalogObjectId,
-      image: {
-        type: "IMAGE",
-        id: "#temp_image",
-        imageData: {
-          name: imageName,
-          caption: `Imported from BoardGameGeek`,
+  //    The stream is rebuilt per attempt since a retry can't re-read it.
+  const { result } = await squareCall("createCatalogImage", () =>
+    client.catalogApi.createCatalogImage(
+      {
+        idempotencyKey: idempotencyKey(
+          "img",
+          options.runId,
+          catalogObjectId,
+          options.bggId,
+          createHash("sha256").update(imageUrl).digest("hex")
+        ),
+        objectId: catalogObjectId,
+        image: {
+          type: "IMAGE",
+          id: "#temp_image",
+          imageData: {
+            name: imageName,
+            caption: BGG_IMAGE_CAPTION,
+          },
         },
       },
-    },
-    file
+      new FileWrapper(Readable.from(processed.buffer), {
+        contentType: processed.contentType,
+        filename: `${imageName.replace(/[^a-zA-Z0-9_-]/g, "_")}.${processed.extension}`,
+      })
+    )
   );
 
   const imageObjectId = result.image?.id;
   if (!imageObjectId) throw new Error("Square did not return an image ID");
 
-  return { imageObjectId };
+  await setImageMarker({
+    imageId: imageObjectId,
+    objectId: catalogObjectId,
+    bggId: options.bggId ?? null,
+    sourceUrl: imageUrl,
+    uploadedAt: new Date().toISOString(),
+  });
+
+  return { imageObjectId, reused: false, previousImageUrl };
+}
+
+// ---------------------------------------------------------------------------
+// Image policy (where the new image goes, which old ones are removed)
+// ---------------------------------------------------------------------------
+
+/**
+ * What to do with an item's existing images when a BGG image is added:
+ *   skip             – only add an image to items that have none
+ *   append           – add it after the existing images
+ *   set-primary      – add it as the primary (first) image, keep the rest
+ *   replace-bgg-only – delete images this tool imported earlier; the new image
+ *                      becomes the primary one (staff photos are kept, never deleted)
+ *   replace-all      – delete our images, detach staff photos, new image only
+ */
+export type ImagePolicy = "skip" | "append" | "set-primary" | "replace-bgg-only" | "replace-all";
+
+export const IMAGE_POLICIES: ImagePolicy[] = ["skip", "append", "set-primary", "replace-bgg-only", "replace-all"];
+
+export const BGG_IMAGE_CAPTION = "Imported from BoardGameGeek";
+
+export interface ItemImage {
+  id: string;
+  caption: string | null;
+  /** Square-hosted URL of the image */
+  url: string | null;
+  /** Created by this tool (marker in the store, or our caption) */
+  importedByTool: boolean;
+  /** Our marker, when the image was uploaded by a version that stores them */
+  marker: ImageMarker | null;
+}
+
+/** Retrieve the item with its images in `imageIds` order, flagged if this tool created them. */
+async function retrieveItemWithImages(
+  catalogObjectId: string
+): Promise<{ existing: CatalogObject; images: ItemImage[] }> {
+  const client = getSquareClient();
+  const { result } = await squareCall("retrieveCatalogObject", () =>
+    client.catalogApi.retrieveCatalogObject(catalogObjectId, true)
+  );
+  const existing = result.object;
+  if (!existing) {
+    throw new Error(`[Square] Could not retrieve object ${catalogObjectId}`);
+  }
+
+  const images: ItemImage[] = [];
+  for (const id of existing.itemData?.imageIds ?? []) {
+    const image = result.relatedObjects?.find((o) => o.id === id);
+    // An id whose image was deleted (e.g. by an interrupted policy run) isn't an image any more
+    if (!image) continue;
+    const caption = image?.imageData?.caption ?? null;
+    const marker = await getImageMarker(id);
+    images.push({
+      id,
+      caption,
+      url: image?.imageData?.url ?? null,
+      importedByTool: !!marker || caption === BGG_IMAGE_CAPTION,
+      marker,
+    });
+  }
+  return { existing, images };
+}
+
+export async function getItemImages(catalogObjectId: string): Promise<ItemImage[]> {
+  return (await retrieveItemWithImages(catalogObjectId)).images;
+}
+
+/** The item's current primary image URL and description, for run reports. */
+export async function getItemContent(
+  catalogObjectId: string
+): Promise<{ imageUrl: string | null; descriptionHtml: string | null }> {
+  const { existing, images } = await retrieveItemWithImages(catalogObjectId);
+  return {
+    imageUrl: images[0]?.url ?? null,
+    descriptionHtml: existing.itemData?.descriptionHtml || existing.itemData?.description || null,
+  };
+}
+
+/**
+ * Put the freshly uploaded `newImageId` where `policy` says and remove the
+ * images it replaces. Images we created are deleted; staff photos are only
+ * ever detached (replace-all), never deleted.
+ */
+export async function applyImagePolicy(
+  catalogObjectId: string,
+  newImageId: string,
+  policy: ImagePolicy
+): Promise<{ imageIds: string[]; deleted: string[]; detached: string[] }> {
+  const client = getSquareClient();
+
+  // 1. Delete the images we imported earlier before touching the item, so a
+  //    retry after a failure still sees the ones not yet deleted (already gone is fine)
+  const { deleted } = planImagePolicy(await getItemImages(catalogObjectId), newImageId, policy);
+  for (const imageId of deleted) {
+    try {
+      await squareCall("deleteCatalogObject (image)", () => client.catalogApi.deleteCatalogObject(imageId));
+    } catch (err) {
+      if (!(err instanceof SquareCallError && err.kind === "not_found")) throw err;
+    }
+    await deleteImageMarker(imageId);
+  }
+
+  // 2. Reorder / detach on the item (re-read and re-plan if it changes under us)
+  const plan = await withVersionRetry("apply image policy", async () => {
+    const { existing, images } = await retrieveItemWithImages(catalogObjectId);
+    const plan = planImagePolicy(images, newImageId, policy);
+
+    const current = existing.itemData?.imageIds ?? [];
+    if (current.join(",") !== plan.imageIds.join(",")) {
+      await squareCall("upsertCatalogObject (image order)", () =>
+        client.catalogApi.upsertCatalogObject({
+          idempotencyKey: idempotencyKey("image-order", catalogObjectId, newImageId, existing.version),
+          object: {
+            type: "ITEM",
+            id: catalogObjectId,
+            version: existing.version,
+            itemData: { ...existing.itemData, imageIds: plan.imageIds },
+            customAttributeValues: existing.customAttributeValues,
+          },
+        })
+      );
+    }
+    return plan;
+  });
+
+  return { ...plan, deleted };
+}
+
+/** Where the new image goes under `policy`, and which images it displaces. */
+function planImagePolicy(
+  images: ItemImage[],
+  newImageId: string,
+  policy: ImagePolicy
+): { imageIds: string[]; deleted: string[]; detached: string[] } {
+  const others = images.filter((img) => img.id !== newImageId);
+  const ours = others.filter((img) => img.importedByTool).map((img) => img.id);
+  const staff = others.filter((img) => !img.importedByTool).map((img) => img.id);
+
+  switch (policy) {
+    case "skip":
+    case "append":
+      return { imageIds: [...others.map((img) => img.id), newImageId], deleted: [], detached: [] };
+    case "set-primary":
+      return { imageIds: [newImageId, ...others.map((img) => img.id)], deleted: [], detached: [] };
+    case "replace-bgg-only":
+      return { imageIds: [newImageId, ...staff], deleted: ours, detached: [] };
+    case "replace-all":
+      return { imageIds: [newImageId], deleted: ours, detached: staff };
+  }
 }
 
 // ---------------------------------------------------------------------------
@@ -249,35 +587,204 @@ export async function uploadImageToSquareItem(
  * Update the description of a Square catalog item using HTML.
  *
  * Retrieves the current object first (to get `version`), then upserts
- * with the updated `descriptionHtml` field.
+ * with the updated `descriptionHtml` field. The idempotency key covers the
+ * content and version, so a retry either replays or rewrites the same text.
  */
 export async function updateItemDescription(
   catalogObjectId: string,
-  descriptionHtml: string
+  descriptionHtml: string,
+  options: { bggId?: number; runId?: string } = {}
 ): Promise<void> {
   const client = getSquareClient();
 
-  // 1. Retrieve the current catalog object (need its `version`)
-  const { result: getResult } = await client.catalogApi.retrieveCatalogObject(
-    catalogObjectId
-  );
-  const existing = getResult.object;
-  if (!existing) {
-    throw new Error(`[Square] Could not retrieve object ${catalogObjectId}`);
+  await withVersionRetry("update description", async () => {
+    // 1. Retrieve the current catalog object (need its `version`)
+    const { result: getResult } = await squareCall("retrieveCatalogObject", () =>
+      client.catalogApi.retrieveCatalogObject(catalogObjectId)
+    );
+    const existing = getResult.object;
+    if (!existing) {
+      throw new Error(`[Square] Could not retrieve object ${catalogObjectId}`);
+    }
+
+    // 2. Upsert with updated description
+    await squareCall("upsertCatalogObject (description)", () =>
+      client.catalogApi.upsertCatalogObject({
+        idempotencyKey: idempotencyKey(
+          "desc",
+          options.runId,
+          catalogObjectId,
+          options.bggId,
+          descriptionHtml,
+          existing.version
+        ),
+        object: {
+          type: "ITEM",
+          id: catalogObjectId,
+          version: existing.version,
+          itemData: {
+            ...existing.itemData,
+            descriptionHtml,
+          },
+          customAttributeValues: existing.customAttributeValues,
+        },
+      })
+    );
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Batched description updates
+// ---------------------------------------------------------------------------
+
+export interface DescriptionUpdate {
+  objectId: string;
+  descriptionHtml: string;
+  bggId?: number;
+  runId?: string;
+}
+
+export interface DescriptionUpdateResult {
+  objectId: string;
+  status: "updated" | "unchanged" | "failed";
+  /** Why the write failed (null unless status is "failed") */
+  error: SquareErrorReport | null;
+}
+
+/** Items per batchRetrieve + batchUpsert round trip (Square allows 1,000). */
+const DESCRIPTION_CHUNK_SIZE = 100;
+
+/**
+ * Write many descriptions with one `batchRetrieveCatalogObjects` and one
+ * `batchUpsertCatalogObjects` per chunk, instead of two calls per item.
+ *
+ * A batch upsert is all-or-nothing: a chunk that loses a VERSION_MISMATCH
+ * race is re-read and retried, and a chunk that still fails permanently
+ * falls back to per-item updates, so one deleted or conflicting item can't
+ * sink the rest. Transient errors are thrown for the caller to retry.
+ */
+export async function batchUpdateItemDescriptions(updates: DescriptionUpdate[]): Promise<DescriptionUpdateResult[]> {
+  // The last update queued for an item wins (a batch can't upsert one id twice)
+  const latest = [...new Map(updates.map((u) => [u.objectId, u])).values()];
+  const results: DescriptionUpdateResult[] = [];
+
+  for (let i = 0; i < latest.length; i += DESCRIPTION_CHUNK_SIZE) {
+    const chunk = latest.slice(i, i + DESCRIPTION_CHUNK_SIZE);
+    try {
+      results.push(...(await withVersionRetry("batch update descriptions", () => upsertDescriptionChunk(chunk))));
+    } catch (err) {
+      const chunkError = classifySquareError(err, "batch update descriptions");
+      if (chunkError.transient) throw chunkError;
+      console.warn(`[Square] ${chunkError.message} – updating ${chunk.length} description(s) one by one`);
+
+      for (const update of chunk) {
+        try {
+          await updateItemDescription(update.objectId, update.descriptionHtml, update);
+          results.push({ objectId: update.objectId, status: "updated", error: null });
+        } catch (itemErr) {
+          const error = classifySquareError(itemErr, "update description");
+          if (error.transient) throw error;
+          results.push({ objectId: update.objectId, status: "failed", error: error.toReport() });
+        }
+      }
+    }
   }
 
-  // 2. Upsert with updated description
-  await client.catalogApi.upsertCatalogObject({
-    idempotencyKey: `bgg-desc-${catalogObjectId}-${Date.now()}`,
-    object: {
+  return results;
+}
+
+async function upsertDescriptionChunk(chunk: DescriptionUpdate[]): Promise<DescriptionUpdateResult[]> {
+  const client = getSquareClient();
+
+  // 1. Retrieve the current versions in one call
+  const { result } = await squareCall("batchRetrieveCatalogObjects", () =>
+    client.catalogApi.batchRetrieveCatalogObjects({ objectIds: chunk.map((u) => u.objectId) })
+  );
+  const current = new Map((result.objects ?? []).map((obj) => [obj.id, obj]));
+
+  const results: DescriptionUpdateResult[] = [];
+  const objects: CatalogObject[] = [];
+  for (const update of chunk) {
+    const existing = current.get(update.objectId);
+    if (!existing || existing.isDeleted) {
+      const error = new SquareCallError(
+        "not_found",
+        "batch update descriptions",
+        null,
+        null,
+        `Item ${update.objectId} no longer exists`
+      );
+      results.push({ objectId: update.objectId, status: "failed", error: error.toReport() });
+      continue;
+    }
+    if (existing.itemData?.descriptionHtml === update.descriptionHtml) {
+      results.push({ objectId: update.objectId, status: "unchanged", error: null });
+      continue;
+    }
+
+    objects.push({
       type: "ITEM",
-      id: catalogObjectId,
+      id: update.objectId,
       version: existing.version,
-      itemData: {
-        ...existing.itemData,
-        descriptionHtml,
-      },
-    },
-  });
+      itemData: { ...existing.itemData, descriptionHtml: update.descriptionHtml },
+      customAttributeValues: existing.customAttributeValues,
+    });
+    results.push({ objectId: update.objectId, status: "updated", error: null });
+  }
+
+  // 2. Upsert every changed item in one call
+  if (objects.length > 0) {
+    await squareCall("batchUpsertCatalogObjects (descriptions)", () =>
+      client.catalogApi.batchUpsertCatalogObjects({
+        idempotencyKey: idempotencyKey(
+          "desc-batch",
+          ...objects.flatMap((obj) => [obj.id, obj.version, obj.itemData?.descriptionHtml])
+        ),
+        batches: [{ objects }],
+      })
+    );
+  }
+
+  return results;
 }
 
+// ---------------------------------------------------------------------------
+// Record the matched BGG id
+// ---------------------------------------------------------------------------
+
+/**
+ * Store `bggId` on the Square item as a custom attribute (creating the
+ * attribute definition first if needed), so later runs know where the
+ * item's image and description came from.
+ */
+export async function setItemBggId(catalogObjectId: string, bggId: number): Promise<void> {
+  const client = getSquareClient();
+  await ensureBggIdAttributeDefinition();
+
+  const key = getBggIdAttributeKey();
+  await withVersionRetry("set BGG id", async () => {
+    const { result: getResult } = await squareCall("retrieveCatalogObject", () =>
+      client.catalogApi.retrieveCatalogObject(catalogObjectId)
+    );
+    const existing = getResult.object;
+    if (!existing) {
+      throw new Error(`[Square] Could not retrieve object ${catalogObjectId}`);
+    }
+
+    await squareCall("upsertCatalogObject (BGG id)", () =>
+      client.catalogApi.upsertCatalogObject({
+        idempotencyKey: idempotencyKey("bgg-id", catalogObjectId, bggId, existing.version),
+        object: {
+          type: "ITEM",
+          id: catalogObjectId,
+          version: existing.version,
+          itemData: existing.itemData,
+          customAttributeValues: {
+            ...existing.customAttributeValues,
+            [key]: { stringValue: String(bggId) },
+          },
+        },
+      })
+    );
+  });
+}
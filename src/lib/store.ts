@@ -0,0 +1,272 @@
+/**
+ * Key/value storage layer with pluggable backends.
+ *
+ * Backends:
+ *   file – a single JSON file on disk (local development). Kept in memory and
+ *          written at most once per STORE_FILE_FLUSH_MS, so hot counters and
+ *          caches don't rewrite the whole file on every call
+ *   kv   – Vercel KV / Upstash Redis over its REST API (production)
+ *
+ * Env vars:
+ *   STORE_BACKEND      – "file" | "kv" (default: "kv" if KV_REST_API_URL is set, else "file")
+ *   STORE_FILE_PATH    – path of the JSON file for the file backend (default: .data/store.json)
+ *   STORE_FILE_FLUSH_MS – how long the file backend batches writes, in ms (default: 1000)
+ *   KV_REST_API_URL    – REST URL of the KV database (set by the Vercel KV integration)
+ *   KV_REST_API_TOKEN  – REST token of the KV database
+ */
+
+import { mkdirSync, promises as fs, renameSync, writeFileSync } from "fs";
+import path from "path";
+
+// ---------------------------------------------------------------------------
+// Interface
+// ---------------------------------------------------------------------------
+
+export interface SetOptions {
+  /** Expire the key after this many seconds. Omit to keep it forever. */
+  ttlSeconds?: number;
+}
+
+export interface KeyValueStore {
+  /** Return the stored value, or null if missing / expired. */
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, options?: SetOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** List all (non-expired) keys that start with `prefix`. */
+  list(prefix: string): Promise<string[]>;
+  /**
+   * Atomically add `amount` to a numeric counter (missing → 0) and return
+   * the new value. The TTL, if given, is applied when the counter is created.
+   */
+  incr(key: string, amount?: number, options?: SetOptions): Promise<number>;
+}
+
+// ---------------------------------------------------------------------------
+// File backend
+// ---------------------------------------------------------------------------
+
+interface FileEntry {
+  value: unknown;
+  /** Epoch ms, or null for no expiry */
+  expiresAt: number | null;
+}
+
+class FileStore implements KeyValueStore {
+  private data: Record<string, FileEntry> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private dirty = false;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly flushDelayMs: number
+  ) {
+    // Don't lose the last batch when the dev server stops
+    process.once("exit", () => this.flushSync());
+  }
+
+  private async load(): Promise<Record<string, FileEntry>> {
+    if (this.data) return this.data;
+    try {
+      const raw = await fs.readFile(this.filePath, "utf8");
+      this.data = JSON.parse(raw);
+    } catch (err: any) {
+      if (err.code !== "ENOENT") {
+        console.warn(`[Store] Could not read ${this.filePath}: ${err.message} – starting empty`);
+      }
+      this.data = {};
+    }
+    return this.data!;
+  }
+
+  /** Schedule a write; everything changed until it runs goes out in one file write. */
+  private persist(): void {
+    this.dirty = true;
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      // Serialized so a slow write can't be overtaken by the next one
+      this.writeChain = this.writeChain
+        .then(() => this.flush())
+        .catch((err) => console.warn(`[Store] Could not write ${this.filePath}: ${err.message}`));
+    }, this.flushDelayMs);
+    this.flushTimer.unref();
+  }
+
+  /** Drop expired entries and snapshot the data; null if nothing changed. */
+  private snapshot(): string | null {
+    if (!this.dirty || !this.data) return null;
+    this.dirty = false;
+    for (const [k, entry] of Object.entries(this.data)) {
+      if (!this.isLive(entry)) delete this.data[k];
+    }
+    return JSON.stringify(this.data);
+  }
+
+  /** Write via a temp file and rename, so a crash mid-write can't truncate the store. */
+  private async flush(): Promise<void> {
+    const json = this.snapshot();
+    if (json === null) return;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(`${this.filePath}.tmp`, json, "utf8");
+    await fs.rename(`${this.filePath}.tmp`, this.filePath);
+  }
+
+  private flushSync(): void {
+    const json = this.snapshot();
+    if (json === null) return;
+    try {
+      mkdirSync(path.dirname(this.filePath), { recursive: true });
+      writeFileSync(`${this.filePath}.tmp`, json, "utf8");
+      renameSync(`${this.filePath}.tmp`, this.filePath);
+    } catch (err: any) {
+      console.warn(`[Store] Could not write ${this.filePath} on exit: ${err.message}`);
+    }
+  }
+
+  private isLive(entry: FileEntry | undefined): entry is FileEntry {
+    return !!entry && (entry.expiresAt === null || entry.expiresAt > Date.now());
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const data = await this.load();
+    const entry = data[key];
+    return this.isLive(entry) ? (entry.value as T) : null;
+  }
+
+  async set<T>(key: string, value: T, options?: SetOptions): Promise<void> {
+    const data = await this.load();
+    data[key] = {
+      value,
+      expiresAt: options?.ttlSeconds ? Date.now() + options.ttlSeconds * 1_000 : null,
+    };
+    this.persist();
+  }
+
+  async delete(key: string): Promise<void> {
+    const data = await this.load();
+    if (!(key in data)) return;
+    delete data[key];
+    this.persist();
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const data = await this.load();
+    return Object.keys(data).filter((k) => k.startsWith(prefix) && this.isLive(data[k]));
+  }
+
+  async incr(key: string, amount = 1, options?: SetOptions): Promise<number> {
+    const data = await this.load();
+    const entry = data[key];
+    if (this.isLive(entry)) {
+      entry.value = Number(entry.value) + amount;
+    } else {
+      data[key] = {
+        value: amount,
+        expiresAt: options?.ttlSeconds ? Date.now() + options.ttlSeconds * 1_000 : null,
+      };
+    }
+    this.persist();
+    return data[key].value as number;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// KV backend (Upstash REST protocol, as used by Vercel KV)
+// ---------------------------------------------------------------------------
+
+class KvStore implements KeyValueStore {
+  constructor(
+    private readonly url: string,
+    private readonly token: string
+  ) {}
+
+  private async command<T>(args: (string | number)[]): Promise<T> {
+    const res = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(args),
+    });
+
+    const body = await res.json().catch(() => null);
+    if (!res.ok || body?.error) {
+      throw new Error(`[Store] KV ${args[0]} failed: ${body?.error ?? `${res.status} ${res.statusText}`}`);
+    }
+    return body.result as T;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const raw = await this.command<string | null>(["GET", key]);
+    return raw === null ? null : (JSON.parse(raw) as T);
+  }
+
+  async set<T>(key: string, value: T, options?: SetOptions): Promise<void> {
+    const args: (string | number)[] = ["SET", key, JSON.stringify(value)];
+    if (options?.ttlSeconds) args.push("EX", Math.ceil(options.ttlSeconds));
+    await this.command(args);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command(["DEL", key]);
+  }
+
+  async list(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let cursor = "0";
+    do {
+      const [next, batch] = await this.command<[string, string[]]>([
+        "SCAN",
+        cursor,
+        "MATCH",
+        `${prefix}*`,
+        "COUNT",
+        1000,
+      ]);
+      keys.push(...batch);
+      cursor = next;
+    } while (cursor !== "0");
+    return keys;
+  }
+
+  async incr(key: string, amount = 1, options?: SetOptions): Promise<number> {
+    const value = await this.command<number>(["INCRBY", key, amount]);
+    // First increment created the key – attach the TTL
+    if (value === amount && options?.ttlSeconds) {
+      await this.command(["EXPIRE", key, Math.ceil(options.ttlSeconds)]);
+    }
+    return value;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Singleton
+// ---------------------------------------------------------------------------
+
+let _store: KeyValueStore | null = null;
+
+export function getStore(): KeyValueStore {
+  if (_store) return _store;
+
+  const kvUrl = process.env.KV_REST_API_URL;
+  const kvToken = process.env.KV_REST_API_TOKEN;
+  const backend = process.env.STORE_BACKEND ?? (kvUrl ? "kv" : "file");
+
+  if (backend === "kv") {
+    if (!kvUrl || !kvToken) {
+      throw new Error("STORE_BACKEND=kv requires KV_REST_API_URL and KV_REST_API_TOKEN env vars");
+    }
+    _store = new KvStore(kvUrl, kvToken);
+  } else if (backend === "file") {
+    _store = new FileStore(
+      process.env.STORE_FILE_PATH ?? path.join(process.cwd(), ".data", "store.json"),
+      Number(process.env.STORE_FILE_FLUSH_MS) || 1000
+    );
+  } else {
+    throw new Error(`Unknown STORE_BACKEND "${backend}" (expected "file" or "kv")`);
+  }
+
+  return _store;
+}
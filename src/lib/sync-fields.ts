@@ -0,0 +1,97 @@
+/**
+ * Which item fields a sync writes, and whether it overwrites existing values.
+ *
+ * A run's `fields` maps each field it should write to an overwrite policy;
+ * fields left out are never written. Without `fields` a run fills every
+ * empty field – and, as before, adds images to items that have some when
+ * its image policy isn't "skip".
+ *
+ * For images the run's ImagePolicy says *how* existing images are
+ * overwritten, so the two are kept consistent by `resolveSyncFields()`.
+ *
+ * Adding a field: extend SYNC_FIELDS, teach `hasField()` to read it off a
+ * SquareCatalogItem, and write it in the sync-single-item child.
+ */
+
+import type { ImagePolicy, SquareCatalogItem } from "./square";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const SYNC_FIELDS = ["image", "description"] as const;
+export type SyncField = (typeof SYNC_FIELDS)[number];
+
+/** fill-if-empty – only items without a value; overwrite – every matched item */
+export const FIELD_POLICIES = ["fill-if-empty", "overwrite"] as const;
+export type FieldPolicy = (typeof FIELD_POLICIES)[number];
+
+/** Fields to write and their policy; a missing field is not written. */
+export type FieldSelection = Partial<Record<SyncField, FieldPolicy>>;
+
+export const DEFAULT_FIELDS: FieldSelection = { image: "fill-if-empty", description: "fill-if-empty" };
+
+/** Used when images are to be overwritten but the run's image policy is "skip". */
+const OVERWRITE_IMAGE_POLICY: ImagePolicy = "replace-bgg-only";
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve a run's `fields` and `imagePolicy` against each other: with no
+ * `fields`, a non-"skip" image policy means images are overwritten; an
+ * image "overwrite" with a "skip" policy replaces our own BGG images; and
+ * an image policy is moot unless images are overwritten.
+ */
+export function resolveSyncFields(
+  fields: FieldSelection | undefined,
+  imagePolicy: ImagePolicy
+): { fields: FieldSelection; imagePolicy: ImagePolicy } {
+  const resolved: FieldSelection = fields ?? {
+    ...DEFAULT_FIELDS,
+    image: imagePolicy === "skip" ? "fill-if-empty" : "overwrite",
+  };
+  if (resolved.image !== "overwrite") return { fields: resolved, imagePolicy: "skip" };
+  return { fields: resolved, imagePolicy: imagePolicy === "skip" ? OVERWRITE_IMAGE_POLICY : imagePolicy };
+}
+
+/** Whether the item already has a value for the field. */
+export function hasField(item: SquareCatalogItem, field: SyncField): boolean {
+  switch (field) {
+    case "image":
+      return item.hasImage;
+    case "description":
+      return item.hasDescription;
+  }
+}
+
+/** Whether the run should write this field on the item. */
+export function wantsField(item: SquareCatalogItem, fields: FieldSelection, field: SyncField): boolean {
+  const policy = fields[field];
+  if (!policy) return false;
+  return policy === "overwrite" || !hasField(item, field);
+}
+
+/** Whether the run writes every field (with either policy). */
+export function selectsAllFields(fields: FieldSelection): boolean {
+  return SYNC_FIELDS.every((field) => !!fields[field]);
+}
+
+/** Check a `fields` value from the API; returns an error message or null. */
+export function validateFieldSelection(fields: any): string | null {
+  if (!fields || typeof fields !== "object" || Array.isArray(fields)) {
+    return `fields must be an object like { "description": "overwrite" }`;
+  }
+  const entries = Object.entries(fields);
+  if (entries.length === 0) return "fields must select at least one field";
+  for (const [field, policy] of entries) {
+    if (!SYNC_FIELDS.includes(field as SyncField)) {
+      return `fields.${field} is not a field – fields are: ${SYNC_FIELDS.join(", ")}`;
+    }
+    if (!FIELD_POLICIES.includes(policy as FieldPolicy)) {
+      return `fields.${field} must be one of: ${FIELD_POLICIES.join(", ")}`;
+    }
+  }
+  return null;
+}
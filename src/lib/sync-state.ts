@@ -0,0 +1,46 @@
+/**
+ * Incremental sync state.
+ *
+ * When a real, unfiltered run completes with no failed items, the time its
+ * catalog scan started becomes the high-water mark. An incremental run then
+ * only fetches Square items created or changed since that mark.
+ *
+ * Keys:
+ *   sync:high-water-mark → HighWaterMark
+ */
+
+import { getStore } from "./store";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface HighWaterMark {
+  /** RFC 3339 timestamp the recording run's catalog scan started at */
+  since: string;
+  /** Run that recorded it */
+  runId: string;
+  recordedAt: string;
+}
+
+const KEY = "sync:high-water-mark";
+
+// ---------------------------------------------------------------------------
+// Operations
+// ---------------------------------------------------------------------------
+
+export function getHighWaterMark(): Promise<HighWaterMark | null> {
+  return getStore().get<HighWaterMark>(KEY);
+}
+
+export async function setHighWaterMark(mark: HighWaterMark): Promise<void> {
+  await getStore().set(KEY, mark);
+}
+
+/** Record `mark` unless the stored one is already later. Returns whether it moved. */
+export async function advanceHighWaterMark(mark: HighWaterMark): Promise<boolean> {
+  const current = await getHighWaterMark();
+  if (current && Date.parse(current.since) >= Date.parse(mark.since)) return false;
+  await setHighWaterMark(mark);
+  return true;
+}
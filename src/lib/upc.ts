@@ -1,52 +1,407 @@
 /**
  * UPC Barcode Lookup
  *
- * Uses UPCitemdb.com free trial API to resolve a UPC/EAN barcode
- * to a full product title. No API key required (rate-limited to
- * 100 lookups/day on the trial endpoint).
+ * Resolves a UPC/EAN barcode to a full product title by running an ordered
+ * chain of providers until one answers:
  *
- * Endpoint: https://api.upcitemdb.com/prod/trial/lookup?upc=BARCODE
+ *   local-file       – a CSV/JSON barcode file from distributors (UPC_LOCAL_FILE)
+ *   square-catalog   – another Square catalog item carrying the same UPC
+ *   upcitemdb-paid   – UPCitemdb.com paid API (UPCITEMDB_USER_KEY)
+ *   upcitemdb-trial  – UPCitemdb.com free trial API (100 lookups/day, no key)
+ *
+ * Each provider has a daily quota counter in the shared store; exhausted
+ * providers are skipped (and reported) until the next UTC day. Resolved
+ * barcodes are cached persistently so a barcode is only paid for once
+ * (square-catalog hits excepted – they depend on the asking item);
+ * misses are cached for a week, but only when every provider answered.
+ * Per-run stats are kept as long as the run history (RUN_HISTORY_DAYS).
+ * Barcodes are validated and normalized (gtin.ts) first: invalid ones are
+ * never sent to a provider, and UPC-A / EAN-13 spellings share one cache key.
+ *
+ * Env vars:
+ *   UPC_PROVIDERS          – order of providers (default: "local-file,square-catalog,upcitemdb-paid,upcitemdb-trial")
+ *   UPC_LOCAL_FILE         – path of the barcode file (.csv with upc,title,brand,description columns, or .json)
+ *   UPCITEMDB_USER_KEY     – key for the paid UPCitemdb endpoint
+ *   UPCITEMDB_DAILY_QUOTA  – daily quota of the paid plan (default: 20000)
+ *   UPC_CACHE_TTL_DAYS     – how long resolved barcodes are cached (default: 90)
  */
 
+import { AsyncLocalStorage } from "async_hooks";
+import { promises as fs } from "fs";
+import { getStore } from "./store";
+import { getSquareClient } from "./square";
+import { squareCall } from "./square-call";
+import { barcodeForms, normalizeGtin, parseBarcode, ValidBarcode } from "./gtin";
+import { runRetention } from "./run-store";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
 export interface UpcLookupResult {
   title: string;
   brand: string | null;
   description: string | null;
 }
 
-/**
- * Look up a UPC/EAN barcode and return the product title.
- * Returns null if the barcode is not found or the service is unavailable.
- */
-export async function lookupUpc(upc: string): Promise<UpcLookupResult | null> {
-  try {
-    const url = `https://api.upcitemdb.com/prod/trial/lookup?upc=${encodeURIComponent(upc.trim())}`;
+export interface UpcLookupOptions {
+  /** Square item asking – the square-catalog provider ignores its own variations */
+  excludeObjectId?: string;
+}
+
+export interface UpcProvider {
+  id: string;
+  /** Lookups allowed per UTC day, or null for unlimited */
+  dailyQuota(): number | null;
+  /** Whether the provider has the config it needs (key, file, …) */
+  isConfigured(): boolean;
+  /** Hits depend on the lookup options, so they must not go in the shared cache */
+  uncacheable?: boolean;
+  /**
+   * Resolve a barcode. Returns null when the barcode is unknown.
+   * Throws `UpcQuotaExceededError` when the remote service refuses for quota.
+   */
+  lookup(barcode: ValidBarcode, options: UpcLookupOptions): Promise<UpcLookupResult | null>;
+}
+
+export class UpcQuotaExceededError extends Error {
+  constructor(providerId: string) {
+    super(`[UPC] ${providerId} quota exceeded`);
+    this.name = "UpcQuotaExceededError";
+  }
+}
+
+/** What happened during UPC lookups inside a `trackUpcLookups` call. */
+export interface UpcLookupReport {
+  lookups: number;
+  cacheHits: number;
+  /** Barcodes rejected by validation (never looked up) */
+  invalidBarcodes: number;
+  /** Provider id → lookups sent to it */
+  byProvider: Record<string, number>;
+  /** Providers skipped because their daily quota was used up */
+  quotaExhausted: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Providers
+// ---------------------------------------------------------------------------
+
+/** Parse a UPCitemdb lookup response. */
+async function parseUpcItemDb(res: Response, providerId: string, upc: string): Promise<UpcLookupResult | null> {
+  if (res.status === 429) throw new UpcQuotaExceededError(providerId);
+  if (!res.ok) {
+    throw new Error(`[UPC] ${providerId} lookup failed for ${upc}: ${res.status} ${res.statusText}`);
+  }
+
+  const data = await res.json();
+  const items = data?.items;
+  if (!items || !Array.isArray(items) || items.length === 0) return null;
+
+  const item = items[0];
+  return {
+    title: item.title ?? "",
+    brand: item.brand ?? null,
+    description: item.description ?? null,
+  };
+}
 
+/** UPCitemdb expects UPC-A or EAN-13; only true GTIN-14s are sent as 14 digits. */
+function upcItemDbCode(barcode: ValidBarcode): string {
+  return barcode.upcA ?? barcode.ean13 ?? barcode.gtin14;
+}
+
+const upcItemDbTrial: UpcProvider = {
+  id: "upcitemdb-trial",
+  dailyQuota: () => 100,
+  isConfigured: () => true,
+  async lookup(barcode) {
+    const upc = upcItemDbCode(barcode);
+    const url = `https://api.upcitemdb.com/prod/trial/lookup?upc=${encodeURIComponent(upc)}`;
+    const res = await fetch(url, { headers: { Accept: "application/json" } });
+    return parseUpcItemDb(res, this.id, upc);
+  },
+};
+
+const upcItemDbPaid: UpcProvider = {
+  id: "upcitemdb-paid",
+  dailyQuota: () => Number(process.env.UPCITEMDB_DAILY_QUOTA) || 20_000,
+  isConfigured: () => !!process.env.UPCITEMDB_USER_KEY,
+  async lookup(barcode) {
+    const upc = upcItemDbCode(barcode);
+    const url = `https://api.upcitemdb.com/prod/v1/lookup?upc=${encodeURIComponent(upc)}`;
     const res = await fetch(url, {
-      headers: { Accept: "application/json" },
+      headers: {
+        Accept: "application/json",
+        user_key: process.env.UPCITEMDB_USER_KEY!,
+        key_type: "3scale",
+      },
     });
+    return parseUpcItemDb(res, this.id, upc);
+  },
+};
 
-    if (!res.ok) {
-      console.warn(`[UPC] Lookup failed for ${upc}: ${res.status} ${res.statusText}`);
-      return null;
-    }
+let _localBarcodes: Promise<Map<string, UpcLookupResult>> | null = null;
+
+/** Load the distributor barcode file once per process (retried after a failed read). */
+function loadLocalBarcodes(): Promise<Map<string, UpcLookupResult>> {
+  if (_localBarcodes) return _localBarcodes;
 
-    const data = await res.json();
-    const items = data?.items;
-    if (!items || !Array.isArray(items) || items.length === 0) {
-      console.warn(`[UPC] No results for barcode ${upc}`);
-      return null;
+  _localBarcodes = (async () => {
+    const filePath = process.env.UPC_LOCAL_FILE!;
+    const raw = await fs.readFile(filePath, "utf8");
+    const rows: Record<string, string>[] = filePath.toLowerCase().endsWith(".json")
+      ? JSON.parse(raw)
+      : parseCsv(raw);
+
+    // Keyed by canonical GTIN so any spelling of a barcode finds its row
+    const map = new Map<string, UpcLookupResult>();
+    let invalid = 0;
+    for (const row of rows) {
+      const title = String(row.title ?? row.name ?? "").trim();
+      const gtin = normalizeGtin(String(row.upc ?? row.ean ?? row.barcode ?? ""));
+      if (!gtin) invalid++;
+      if (!gtin || !title) continue;
+      map.set(gtin, { title, brand: row.brand || row.publisher || null, description: row.description || null });
     }
+    console.log(`[UPC] Loaded ${map.size} barcodes from ${filePath} (${invalid} invalid skipped)`);
+    return map;
+  })();
+  // Don't keep a failed read – the next lookup tries the file again
+  _localBarcodes.catch(() => {
+    _localBarcodes = null;
+  });
+
+  return _localBarcodes;
+}
 
-    const item = items[0];
-    return {
-      title: item.title ?? "",
-      brand: item.brand ?? null,
-      description: item.description ?? null,
-    };
-  } catch (err: any) {
-    console.warn(`[UPC] Error looking up ${upc}: ${err.message}`);
+/** Minimal CSV parser: header row, comma-separated, double-quoted fields. */
+function parseCsv(raw: string): Record<string, string>[] {
+  const lines = raw.split(/\r?\n/).filter((l) => l.trim().length > 0);
+  const splitLine = (line: string) =>
+    (line.match(/("([^"]|"")*"|[^,]*)(,|$)/g) ?? [])
+      .map((f) => f.replace(/,$/, "").trim().replace(/^"(.*)"$/, "$1").replace(/""/g, '"'))
+      .slice(0, -1);
+
+  const [header, ...body] = lines;
+  const columns = splitLine(header ?? "").map((c) => c.toLowerCase());
+  return body.map((line) => {
+    const fields = splitLine(line);
+    return Object.fromEntries(columns.map((c, i) => [c, fields[i] ?? ""]));
+  });
+}
+
+const localFile: UpcProvider = {
+  id: "local-file",
+  dailyQuota: () => null,
+  isConfigured: () => !!process.env.UPC_LOCAL_FILE,
+  async lookup(barcode) {
+    return (await loadLocalBarcodes()).get(barcode.gtin) ?? null;
+  },
+};
+
+const squareCatalog: UpcProvider = {
+  id: "square-catalog",
+  dailyQuota: () => null,
+  isConfigured: () => !!process.env.SQUARE_ACCESS_TOKEN,
+  // A cached hit could hand an item its own name back, defeating excludeObjectId
+  uncacheable: true,
+  async lookup(barcode, options) {
+    // Square stores barcodes as typed, so try each spelling
+    for (const form of barcodeForms(barcode)) {
+      const { result } = await squareCall("searchCatalogObjects (upc)", () =>
+        getSquareClient().catalogApi.searchCatalogObjects({
+          objectTypes: ["ITEM_VARIATION"],
+          query: { exactQuery: { attributeName: "upc", attributeValue: form } },
+          includeRelatedObjects: true,
+        })
+      );
+
+      const itemIds = (result.objects ?? [])
+        .map((v) => v.itemVariationData?.itemId)
+        .filter((id): id is string => !!id && id !== options.excludeObjectId);
+      const item = (result.relatedObjects ?? []).find((o) => o.type === "ITEM" && itemIds.includes(o.id!));
+      if (item?.itemData?.name) {
+        return {
+          title: item.itemData.name,
+          brand: null,
+          description: item.itemData.description ?? null,
+        };
+      }
+    }
     return null;
+  },
+};
+
+const PROVIDERS: Record<string, UpcProvider> = Object.fromEntries(
+  [localFile, squareCatalog, upcItemDbPaid, upcItemDbTrial].map((p) => [p.id, p])
+);
+
+/** Configured providers, in lookup order. */
+export function getUpcProviders(): UpcProvider[] {
+  const order = (process.env.UPC_PROVIDERS ?? Object.keys(PROVIDERS).join(","))
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0);
+
+  return order
+    .map((id) => {
+      if (!PROVIDERS[id]) console.warn(`[UPC] Unknown provider "${id}" in UPC_PROVIDERS – ignoring`);
+      return PROVIDERS[id];
+    })
+    .filter((p): p is UpcProvider => !!p && p.isConfigured());
+}
+
+// ---------------------------------------------------------------------------
+// Quotas, cache and reporting
+// ---------------------------------------------------------------------------
+
+const quotaKey = (providerId: string) => `upc:quota:${providerId}:${new Date().toISOString().slice(0, 10)}`;
+const QUOTA_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+async function isQuotaExhausted(provider: UpcProvider): Promise<boolean> {
+  const quota = provider.dailyQuota();
+  if (quota === null) return false;
+  const used = (await getStore().get<number>(quotaKey(provider.id))) ?? 0;
+  return used >= quota;
+}
+
+async function countLookup(provider: UpcProvider): Promise<void> {
+  if (provider.dailyQuota() === null) return;
+  await getStore().incr(quotaKey(provider.id), 1, { ttlSeconds: QUOTA_TTL_SECONDS });
+}
+
+/** Mark a provider's quota as used up for today (e.g. after a 429). */
+async function markQuotaExhausted(provider: UpcProvider): Promise<void> {
+  await getStore().set(quotaKey(provider.id), provider.dailyQuota() ?? 0, { ttlSeconds: QUOTA_TTL_SECONDS });
+}
+
+interface CachedUpc {
+  result: UpcLookupResult | null;
+  provider: string | null;
+  resolvedAt: string;
+}
+
+function cacheTtlSeconds(found: boolean): number {
+  const days = Number(process.env.UPC_CACHE_TTL_DAYS) || 90;
+  // Re-check unknown barcodes sooner – providers add products over time
+  return (found ? days : Math.min(days, 7)) * 24 * 60 * 60;
+}
+
+const reportContext = new AsyncLocalStorage<UpcLookupReport>();
+
+/**
+ * Run `fn` and return its result together with a report of the UPC lookups
+ * it caused, including providers whose quota was exhausted.
+ */
+export async function trackUpcLookups<T>(fn: () => Promise<T>): Promise<{ result: T; report: UpcLookupReport }> {
+  const report: UpcLookupReport = { lookups: 0, cacheHits: 0, invalidBarcodes: 0, byProvider: {}, quotaExhausted: [] };
+  const result = await reportContext.run(report, fn);
+  return { result, report };
+}
+
+/** Add one invocation's UPC report to the run's totals in the store. */
+export async function addRunUpcStats(runId: string, report: UpcLookupReport): Promise<void> {
+  const store = getStore();
+  const ttl = runRetention();
+  if (report.lookups > 0) await store.incr(`upc:stats:${runId}:lookups`, report.lookups, ttl);
+  if (report.cacheHits > 0) await store.incr(`upc:stats:${runId}:cacheHits`, report.cacheHits, ttl);
+  if (report.invalidBarcodes > 0) await store.incr(`upc:stats:${runId}:invalidBarcodes`, report.invalidBarcodes, ttl);
+  for (const providerId of report.quotaExhausted) {
+    await store.incr(`upc:stats:${runId}:exhausted:${providerId}`, 1, ttl);
   }
 }
 
+export async function getRunUpcStats(
+  runId: string
+): Promise<Pick<UpcLookupReport, "lookups" | "cacheHits" | "invalidBarcodes" | "quotaExhausted">> {
+  const store = getStore();
+  const prefix = `upc:stats:${runId}:exhausted:`;
+  return {
+    lookups: (await store.get<number>(`upc:stats:${runId}:lookups`)) ?? 0,
+    cacheHits: (await store.get<number>(`upc:stats:${runId}:cacheHits`)) ?? 0,
+    invalidBarcodes: (await store.get<number>(`upc:stats:${runId}:invalidBarcodes`)) ?? 0,
+    quotaExhausted: (await store.list(prefix)).map((k) => k.slice(prefix.length)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+/**
+ * Look up a UPC/EAN/GTIN/ISBN barcode and return the product title.
+ * Returns null if the barcode is invalid, no provider knows it, or all
+ * providers are unavailable.
+ */
+export async function lookupUpc(upc: string, options: UpcLookupOptions = {}): Promise<UpcLookupResult | null> {
+  const report = reportContext.getStore();
+  const barcode = parseBarcode(upc);
+  if (!barcode.valid) {
+    if (report) report.invalidBarcodes++;
+    console.warn(`[UPC] Skipping invalid barcode "${barcode.raw}" (${barcode.problem})`);
+    return null;
+  }
+
+  const code = barcode.gtin;
+  if (report) report.lookups++;
+
+  const cached = await getStore().get<CachedUpc>(`upc:cache:${code}`);
+  if (cached) {
+    if (report) report.cacheHits++;
+    return cached.result;
+  }
+
+  let skippedForQuota = false;
+  let providerErrors = 0;
+
+  for (const provider of getUpcProviders()) {
+    if (await isQuotaExhausted(provider)) {
+      skippedForQuota = true;
+      if (report && !report.quotaExhausted.includes(provider.id)) report.quotaExhausted.push(provider.id);
+      continue;
+    }
+
+    try {
+      await countLookup(provider);
+      if (report) report.byProvider[provider.id] = (report.byProvider[provider.id] ?? 0) + 1;
+
+      const result = await provider.lookup(barcode, options);
+      if (result?.title) {
+        if (provider.uncacheable) return result;
+        await getStore().set<CachedUpc>(
+          `upc:cache:${code}`,
+          { result, provider: provider.id, resolvedAt: new Date().toISOString() },
+          { ttlSeconds: cacheTtlSeconds(true) }
+        );
+        return result;
+      }
+    } catch (err: any) {
+      if (err instanceof UpcQuotaExceededError) {
+        console.warn(`${err.message} – skipping it until tomorrow`);
+        await markQuotaExhausted(provider);
+        skippedForQuota = true;
+        if (report && !report.quotaExhausted.includes(provider.id)) report.quotaExhausted.push(provider.id);
+      } else {
+        providerErrors++;
+        console.warn(`[UPC] ${provider.id} error looking up ${code}: ${err.message}`);
+      }
+    }
+  }
+
+  // Only remember a miss if every provider actually answered (no quota skips, no errors)
+  if (!skippedForQuota && providerErrors === 0) {
+    await getStore().set<CachedUpc>(
+      `upc:cache:${code}`,
+      { result: null, provider: null, resolvedAt: new Date().toISOString() },
+      { ttlSeconds: cacheTtlSeconds(false) }
+    );
+  }
+
+  const unavailable = [
+    ...(skippedForQuota ? ["some providers out of quota"] : []),
+    ...(providerErrors > 0 ? [`${providerErrors} provider error(s), not cached`] : []),
+  ];
+  console.warn(`[UPC] No results for barcode ${code}${unavailable.length ? ` (${unavailable.join("; ")})` : ""}`);
+  return null;
+}